@@ -0,0 +1,97 @@
+/** Width (px) of the zone along each edge that triggers auto-scrolling. */
+const EDGE_ZONE = 40;
+
+/** Highest scroll speed in pixels per animation frame. */
+const MAX_SPEED = 24;
+
+/**
+ * Scroll speed along one axis for a pointer at `pos` within `start … end`.
+ * The speed grows linearly from zero at the inner border of an edge zone to
+ * `MAX_SPEED` at the edge itself (and beyond it).
+ */
+function edgeSpeed(pos: number, start: number, end: number): number {
+  if (pos < start + EDGE_ZONE) {
+    const depth = (start + EDGE_ZONE - pos) / EDGE_ZONE;
+    return -Math.min(MAX_SPEED, depth * MAX_SPEED);
+  }
+  if (pos > end - EDGE_ZONE) {
+    const depth = (pos - (end - EDGE_ZONE)) / EDGE_ZONE;
+    return Math.min(MAX_SPEED, depth * MAX_SPEED);
+  }
+  return 0;
+}
+
+/**
+ * Scrolls a container while a dragged pointer rests near one of its edges.
+ *
+ * Callers feed every pointer position into `update()`. While the pointer is
+ * inside an edge zone the container scrolls on each animation frame, and
+ * `onScroll` is invoked after every step so the caller can recompute snapped
+ * minutes and the row under the (unmoved) pointer. `insetLeft` excludes the
+ * sticky label column from the horizontal viewport.
+ */
+export class AutoScroller {
+  private frame: number | null = null;
+  private x = 0;
+  private y = 0;
+
+  constructor(
+    private container: HTMLElement,
+    private onScroll: () => void,
+    private insetLeft = 0
+  ) {}
+
+  /** Record the latest pointer position and start scrolling when needed. */
+  update(clientX: number, clientY: number): void {
+    this.x = clientX;
+    this.y = clientY;
+
+    if (this.frame === null) {
+      const [vx, vy] = this.velocity();
+      if (vx || vy) {
+        this.frame = requestAnimationFrame(this.step);
+      }
+    }
+  }
+
+  /** Cancel any pending scroll step. */
+  stop(): void {
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+  }
+
+  /** Scroll once and schedule the next step until the edge is left or hit. */
+  private step = () => {
+    this.frame = null;
+
+    const [vx, vy] = this.velocity();
+    const { scrollLeft, scrollTop } = this.container;
+    this.container.scrollLeft += vx;
+    this.container.scrollTop += vy;
+
+    if (
+      this.container.scrollLeft === scrollLeft &&
+      this.container.scrollTop === scrollTop
+    ) {
+      return;
+    }
+
+    this.onScroll();
+    this.frame = requestAnimationFrame(this.step);
+  };
+
+  /** Horizontal and vertical speed for the current pointer position. */
+  private velocity(): [number, number] {
+    const rect = this.container.getBoundingClientRect();
+    return [
+      edgeSpeed(
+        this.x,
+        rect.left + this.insetLeft,
+        rect.left + this.container.clientWidth
+      ),
+      edgeSpeed(this.y, rect.top, rect.top + this.container.clientHeight),
+    ];
+  }
+}
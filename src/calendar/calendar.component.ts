@@ -10,21 +10,93 @@ import {
   EventEmitter,
   Renderer2,
   ElementRef,
+  ViewChild,
   ViewChildren,
+  ContentChild,
+  TemplateRef,
   QueryList,
   AfterViewInit,
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import {
+  BeforeSlotChange,
+  BlockedPeriod,
+  BufferConfig,
+  CalendarResource,
+  CalendarResourceGroup,
+  CalendarRow,
+  CalendarTheme,
+  CalendarViewRange,
+  CapacityMap,
   CompactCalendarSlot,
+  DayColumn,
+  DragType,
+  PlacementIssue,
+  SlotBuffer,
+  SlotChangeEvent,
+  SlotChangeItem,
+  SlotChangeRequest,
+  SlotChangeSource,
+  SlotColorFn,
+  SlotColorRule,
+  SlotCreateEvent,
+  RowLabelTemplateContext,
+  SlotDeleteEvent,
+  SlotDetailsCacheEntry,
+  SlotDetailsContext,
+  SlotDetailsLoader,
+  SlotEditResult,
+  SlotProposal,
+  SlotStatus,
+  SlotStatusRules,
+  SlotTemplateContext,
+  SlotUpdateEvent,
+  SlotValidator,
   SlotViewModel,
+  TimeAxis,
+  TimeInterval,
   WorkingHoursMap,
 } from './calendar.types';
-import { palette } from './calendar.consts';
+import {
+  defaultPalette,
+  defaultStatusRules,
+  slotStatuses,
+  zoomLevels,
+} from './calendar.consts';
+import {
+  MINUTES_IN_DAY,
+  addDays,
+  axisMinutesToIso,
+  axisToOffset,
+  axisVisibleMinutes,
+  colorRuleMatches,
+  formatAxisRange,
+  formatMinutes,
+  intervalGaps,
+  isOnAxis,
+  isoToAxisMinutes,
+  isoWeekStart,
+  maxConcurrency,
+  mergeIntervals,
+  offsetToAxis,
+  parseTime,
+  prefersLightText,
+  samePlacements,
+  slotInterval,
+  toDayKey,
+  workingIntervals,
+} from './calendar.utils';
 import { CalendarSlotComponent } from './slot/slot.component';
 import { SlotDetailComponent } from './slot-detail/slot-detail.component';
+import { StatusLegendComponent } from './status-legend/status-legend.component';
 import { SlotDragEvent } from './slot/slot.directive';
-import { Subscription } from 'rxjs';
+import { AutoScroller } from './calendar.auto-scroll';
+import {
+  LongPress,
+  isLongPressPointer,
+  lockTouchGestures,
+} from './calendar.touch';
+import { Observable, Subscription, isObservable, take } from 'rxjs';
 
 /**
  * Internal state captured when the user drags on an empty row to create a brand
@@ -32,17 +104,73 @@ import { Subscription } from 'rxjs';
  * the ephemeral selection element that is stretched while the pointer moves.
  */
 interface CreateContext {
+  slotId: string;
   trackEl: HTMLElement;
   location: string;
   startX: number;
   startMins: number;
+  lastX: number;
   selectionEl: HTMLDivElement;
+  autoScroller: AutoScroller | null;
+  unlockTouch: (() => void) | null;
+}
+
+/**
+ * One entry in the undo/redo history: a single change, or every change of a
+ * bulk move, which is undone and redone as a whole.
+ */
+interface SlotHistoryEntry {
+  action: SlotChangeRequest['action'];
+  changes: SlotChangeItem[];
+}
+
+/**
+ * Selected slots dragged together with one of them. Every member (including
+ * the dragged anchor) keeps its committed state so the group can be moved by
+ * the anchor's offset on each pointer step.
+ */
+interface GroupDrag {
+  location: string; /** Committed location of the anchor. */
+  start: number; /** Committed start (axis minutes) of the anchor. */
+  members: { slot: CompactCalendarSlot; interval: TimeInterval }[];
+}
+
+/**
+ * Rubber-band selection drawn with Shift or Ctrl held on an empty track. The
+ * start corner is kept in body content coordinates so the band stays anchored
+ * while the body auto-scrolls; `base` is the selection it adds to.
+ */
+interface MarqueeContext {
+  startX: number;
+  startY: number;
+  lastX: number;
+  lastY: number;
+  base: Set<string | number>;
+  el: HTMLDivElement;
+  autoScroller: AutoScroller | null;
 }
 
+/** Maximum number of changes kept in the undo history. */
+const HISTORY_LIMIT = 100;
+
+/** Extra height (px) rendered above and below the visible part of the body. */
+const ROW_OVERSCAN = 240;
+
+/** Length (minutes) of a slot created from the keyboard. */
+const KEYBOARD_SLOT_MINUTES = 60;
+
+/** Change of the finger distance that zooms one level during a pinch. */
+const PINCH_ZOOM_RATIO = 1.25;
+
 @Component({
   selector: 'app-compact-calendar',
   standalone: true,
-  imports: [CommonModule, CalendarSlotComponent, SlotDetailComponent],
+  imports: [
+    CommonModule,
+    CalendarSlotComponent,
+    SlotDetailComponent,
+    StatusLegendComponent,
+  ],
   encapsulation: ViewEncapsulation.None,
   templateUrl: './calendar.component.html',
   styleUrls: ['./calendar.component.scss'],
@@ -51,54 +179,309 @@ interface CreateContext {
  * Compact calendar view that renders a time-based grid grouped by locations.
  *
  * The component:
- * - normalizes incoming slot data into view models snapped to 30-minute steps
- * - shows working-hour gaps per location so users can see blocked ranges
+ * - renders one row per configured resource (even when empty) with its name,
+ *   description, icon and colour, plus rows for any other location in the data
+ * - nests rows in collapsible groups (e.g. site → dock → ramp); a collapsed
+ *   group shows the merged occupancy of its rows and accepts no drops
+ * - lays out one or more consecutive days (single day, N days, or an ISO
+ *   week) on a shared horizontal axis and places every slot by its full date
+ * - limits each day to a visible time window (explicit or derived from the
+ *   working hours) so dead hours do not take up track space
+ * - supports slots and working hours that run across midnight; slots cut off
+ *   by the visible range are clipped and show continuation markers
+ * - normalizes incoming slot data into view models placed at their exact
+ *   times; drags, keyboard moves and creations snap to `snapStep`
+ * - shows working-hour gaps per location (every shift, break, weekday and
+ *   date-specific rule) so users can see blocked ranges, plus ad-hoc blocked
+ *   periods with their reason
+ * - stacks overlapping slots into sub-lanes and enforces a per-location
+ *   capacity (one concurrent slot unless configured otherwise)
+ * - draws and enforces changeover buffers between neighbouring slots
+ * - renders only the rows inside the scrolled viewport, so hundreds of
+ *   locations stay responsive
+ * - zooms the timeline (input, Ctrl+wheel or buttons) and scrolls it
+ *   horizontally with the header and the row labels kept in place
  * - supports dragging, resizing, and cross-row moves with collision detection
- * - prevents placing slots in conflicting or non-working periods and flashes a
- *   transient invalid animation when a move is reverted
- * - emits `slotChange` whenever the user commits a valid drag, resize, or
- *   creation so the host application can persist the change
+ * - selects several slots (Ctrl/Shift-click, Space, or a Shift/Ctrl rubber
+ *   band on the tracks) and moves them together, by drag or through
+ *   `shiftSelected()`, validating every member and emitting one batch
+ * - copies slots (Ctrl+C) and pastes them into the focused row and time
+ *   (Ctrl+V); Alt-drag duplicates a slot. Copies get new ids, are
+ *   validated like any creation and are emitted as creations
+ * - works on touch screens: a swipe scrolls, a long press drags a slot or
+ *   starts a creation, a tap selects, and two fingers pan and pinch-zoom
+ * - exposes the rows and slots as an ARIA grid with a roving tab stop:
+ *   on a slot, arrows move it (Shift resizes the end, Shift+Alt the start),
+ *   Ctrl+arrows move the focus, Enter opens details and Delete removes it;
+ *   on a row, arrows move a time cursor and Enter creates a slot there.
+ *   Results and validation failures are announced through a live region
+ * - prevents placing slots in conflicting or non-working periods, runs
+ *   host-provided validators, marks slots invalid live while dragging and
+ *   explains every rejected move, resize or creation
+ * - emits typed `slotCreate`, `slotUpdate` and `slotDelete` events with the
+ *   state before and after, the drag type and the source of the change
+ *   (plus the plain `slotChange` with the new state) so the host
+ *   application can persist it; slots can be deleted from the keyboard and
+ *   the detail badge
+ * - edits a slot's tn, carrier, location, times and colour in a form inside
+ *   the detail badge, validated with the same rules as a drag
+ * - loads further slot details through `detailsLoader` with loading, error
+ *   and retry states, rendered by a projected `#slotDetails` template
+ * - styles slots by their lifecycle status, freezes statuses according to
+ *   `statusRules` (done slots by default) and filters them by status
+ *   through `statusFilter` or the optional legend
+ * - colours slots by explicit colour, host colour rules (carrier, status, tn
+ *   prefix or a function) or the palette, with text that keeps its contrast
+ *   against the bar, and ships light, dark and high-contrast themes
+ * - accepts projected templates for the slot body (`#slotContent`), the
+ *   detail panel (`#slotPanel`) and the row label (`#rowLabel`); slot
+ *   templates receive the view model, the duration and the bar's width
+ * - optionally asks the host to approve each change (`beforeSlotChange`),
+ *   showing the slot as saving meanwhile and rolling back on refusal
+ * - keeps an undo/redo history of committed changes (Ctrl+Z / Ctrl+Shift+Z)
  */
 export class CompactCalendarComponent
   implements OnInit, OnChanges, OnDestroy, AfterViewInit
 {
   /** Texts shown on the left */
   @Input() dateLabel = '';
-  @Input() timeLabel = '06:00 - 24:00';
+  /** Optional time text; defaults to the visible window, e.g. "06:00 - 24:00". */
+  @Input() timeLabel = '';
 
-  /** Raw slot data provided by the host application. */
+  /**
+   * Raw slot data provided by the host application. Data that differs from
+   * the calendar's own state (other slots, locations or times) clears the
+   * undo history, whose changes may not apply to it.
+   */
   @Input() data: CompactCalendarSlot[] = [];
+  /**
+   * Rows to render with their display metadata. Listed locations are shown
+   * even without slots; further locations found in `data` follow them.
+   */
+  @Input() resources: CalendarResource[] = [];
+  /** Collapsible row groups referenced by `resources` and `groupBy`. */
+  @Input() groups: CalendarResourceGroup[] = [];
+  /**
+   * Derives the group of a location without a `group` in `resources`, e.g.
+   * `(loc) => loc.split('-')[0]` for codes like "CBR1-R2". Groups that are
+   * not listed in `groups` are created on the fly and named by their id.
+   */
+  @Input() groupBy: ((location: string) => string | null | undefined) | null =
+    null;
   /** Working hours per location that define the allowed placement window. */
   @Input() workingHours: WorkingHoursMap = {};
+  /** Concurrent slot capacity per location (defaults to one). */
+  @Input() capacity: CapacityMap = {};
+  /** Changeover buffers required around slots, per location and carrier. */
+  @Input() buffers: BufferConfig = {};
+  /** Ad-hoc closures per location (maintenance, inspection, outages). */
+  @Input() blockedPeriods: BlockedPeriod[] = [];
+  /**
+   * Extra synchronous rules evaluated after the built-in checks for every
+   * move, resize and creation, e.g. "carrier X only at CBR2-*".
+   */
+  @Input() validators: SlotValidator[] = [];
+  /**
+   * What users may still change per slot status. Replaces the default, which
+   * freezes `done` slots.
+   */
+  @Input() statusRules: SlotStatusRules = defaultStatusRules;
+  /**
+   * Statuses whose slots are shown, or `null` for all of them. Hidden slots
+   * still block placement; a rejection caused by one names it.
+   */
+  @Input() statusFilter: SlotStatus[] | null = null;
+  /** Render the status legend (and filter) below the rows. */
+  @Input() showStatusLegend = false;
+  /**
+   * Colour rules for slots without an explicit `color`, tried in order; the
+   * first declarative match or non-empty function result wins.
+   */
+  @Input() colorRules: (SlotColorRule | SlotColorFn)[] = [];
+  /** Colours assigned by id hash when no colour rule applies. */
+  @Input() palette: string[] = defaultPalette;
+  /** Built-in theme; see the theme contract in `calendar.component.scss`. */
+  @Input() theme: CalendarTheme = 'light';
+  /**
+   * Optional asynchronous approval of every committed change. The change is
+   * applied right away and the slot shows as saving until the host settles
+   * it; a refusal restores the previous state and shows the host's reason.
+   * Changes made together (e.g. a group drag) arrive as one request.
+   */
+  @Input() beforeSlotChange: BeforeSlotChange | null = null;
+  /**
+   * Optional request for further details of a slot opened in the detail
+   * badge. Results are cached per slot id until the slot or the loader
+   * changes.
+   */
+  @Input() detailsLoader: SlotDetailsLoader | null = null;
+
+  /**
+   * Anchor day of the view ("YYYY-MM-DD"). Defaults to the day of the first
+   * slot, or today when there is no data.
+   */
+  @Input() viewDate: string | null = null;
+  /** Visible range: a single day, an ISO week, or a number of days. */
+  @Input() viewRange: CalendarViewRange = 'day';
+  /**
+   * Visible time window of each day ("HH:mm", `viewEnd` may be "24:00"). When
+   * omitted, the window spans the earliest start and latest end found in
+   * `workingHours`, or the whole day when no working hours are configured.
+   */
+  @Input() viewStart: string | null = null;
+  @Input() viewEnd: string | null = null;
+  /**
+   * Minutes per grid column, e.g. 60, 15 or 5. Each column takes
+   * `--column-width` and the timeline scrolls horizontally; `null` fits the
+   * whole visible range into the available width.
+   */
+  @Input() zoom: number | null = null;
 
   /** Whether to render a vertical “now” indicator when viewing the current day. */
   @Input() showNowLine = true;
 
-  /** Emits an updated slot when the user commits a drag, resize, or creation. */
-  @Output() slotChange = new EventEmitter<CompactCalendarSlot>();
+  /** Minutes that drags, keyboard moves and creations snap to. */
+  @Input() snapStep = 30;
 
-  /** Unique locations derived from the input data, used to render rows. */
+  /**
+   * Emits an updated slot when the user commits a drag, resize, or creation
+   * (after the host approved it when `beforeSlotChange` is set), once for
+   * every slot of a batch as well. Removals are only reported through
+   * `slotDelete` and `slotsChange`.
+   */
+  @Output() slotChange = new EventEmitter<CompactCalendarSlot>();
+  /** Emits a created slot (drawn, typed, pasted, duplicated or redone). */
+  @Output() slotCreate = new EventEmitter<SlotCreateEvent>();
+  /** Emits a moved or resized slot with its previous state. */
+  @Output() slotUpdate = new EventEmitter<SlotUpdateEvent>();
+  /** Emits a removed slot, also when its creation is undone. */
+  @Output() slotDelete = new EventEmitter<SlotDeleteEvent>();
+  /**
+   * Emits every change applied together (group drag, bulk shift, multi-slot
+   * paste) as one batch. Those changes are not reported through the typed
+   * single change outputs; `slotChange` still fires for each new state.
+   */
+  @Output() slotsChange = new EventEmitter<SlotChangeEvent[]>();
+  /** Emits the selected slot ids whenever the selection changes. */
+  @Output() selectionChange = new EventEmitter<(string | number)[]>();
+  /** Emits the new zoom level when the user zooms (supports `[(zoom)]`). */
+  @Output() zoomChange = new EventEmitter<number | null>();
+  /** Emits the filter toggled in the legend (supports `[(statusFilter)]`). */
+  @Output() statusFilterChange = new EventEmitter<SlotStatus[] | null>();
+
+  /** Ordered row locations: configured resources, then the rest of the data. */
   locations: string[] = [];
+  /** Locations with their display names, offered by the slot edit form. */
+  locationOptions: { id: string; name: string }[] = [];
+  /** Number of slots per status, shown in the legend. */
+  statusCounts: Partial<Record<SlotStatus, number>> = {};
+  /** Resource definition per location, when one is configured. */
+  resourceByLocation: Record<string, CalendarResource | undefined> = {};
+  /** Group headers and visible locations in rendering order. */
+  rows: CalendarRow[] = [];
+  /**
+   * Rows currently rendered: the slice inside the scrolled viewport plus
+   * the pinned rows outside of it.
+   */
+  visibleRows: CalendarRow[] = [];
+  /** Index within `rows` of every rendered row. */
+  visibleRowIndexes: number[] = [];
+  /** Height (px) of the rows skipped right before every rendered row. */
+  visibleRowGaps: number[] = [];
+  /** Height (px) of the rows skipped above and below the rendered rows. */
+  padTop = 0;
+  padBottom = 0;
+  /** Scrollable body that hosts the rows. */
+  @ViewChild('body') bodyEl?: ElementRef<HTMLElement>;
+  /** Header strip, scrolled horizontally together with the body. */
+  @ViewChild('head') headEl?: ElementRef<HTMLElement>;
+  /** Details loaded by `detailsLoader`, shared with the detail badge. */
+  detailsCache = new Map<string | number, SlotDetailsCacheEntry>();
+  /** Host template (`<ng-template #slotDetails>`) for the loaded details. */
+  @ContentChild('slotDetails')
+  detailsTemplate: TemplateRef<SlotDetailsContext> | null = null;
+  /** Host template (`<ng-template #slotContent>`) for the body of a slot. */
+  @ContentChild('slotContent')
+  slotTemplate: TemplateRef<SlotTemplateContext> | null = null;
+  /** Host template (`<ng-template #slotPanel>`) for the detail panel rows. */
+  @ContentChild('slotPanel')
+  slotPanelTemplate: TemplateRef<SlotTemplateContext> | null = null;
+  /**
+   * Host template (`<ng-template #rowLabel>`) for a location row label. It
+   * is clipped to the row height.
+   */
+  @ContentChild('rowLabel')
+  rowLabelTemplate: TemplateRef<RowLabelTemplateContext> | null = null;
+  /**
+   * Roving tab stop of the grid: a slot, or the track of a row when `slotId`
+   * is `null`. Only this element is reachable with Tab.
+   */
+  tabStop: {
+    location: string;
+    slotId: string | number | null;
+  } | null = null;
+  /** Time cursor (axis minutes) for keyboard creation on a focused row. */
+  cursorMins = 0;
+  /** Message read out by the polite live region. */
+  announcement = '';
+  /** Ids of the selected slots. */
+  selection = new Set<string | number>();
+  /** Selected slots following the slot that is being dragged. */
+  private groupDrag: GroupDrag | null = null;
+  /** Rubber-band selection in progress. */
+  private marqueeCtx: MarqueeContext | null = null;
+  /** Slots copied with Ctrl+C, as committed at the time of copying. */
+  private clipboard: CompactCalendarSlot[] = [];
+  /** Id given to the duplicate during an Alt-drag. */
+  private dragCopyId: string | null = null;
+  /** Location of the slot being dragged; its row is never virtualized away. */
+  private dragLocation: string | null = null;
+  /** Raw slots grouped by location, rebuilt in a single pass over `data`. */
+  private dataByLocation: Record<string, CompactCalendarSlot[]> = {};
+  /** Ids of the groups whose rows are currently hidden. */
+  private collapsedGroups = new Set<string>();
   /** Normalized slot view models keyed by location for easy rendering. */
   slotsByLocation: Record<string, SlotViewModel[]> = {};
+  /** Number of stacked sub-lanes rendered per location (at least one). */
+  laneCountByLocation: Record<string, number> = {};
   /** Non-working ranges per location expressed as percentages of the track. */
   nonWorkingByLocation: Record<string, { left: number; width: number }[]> = {};
-
-  /** Hour labels for the header timeline (0–24). */
-  hours = Array.from({ length: 25 }, (_, i) => i);
+  /** Blocked periods per location as track percentages with their reason. */
+  blockedByLocation: Record<
+    string,
+    { left: number; width: number; reason: string }[]
+  > = {};
+
+  /** Time axis of the current view (first visible day and day count). */
+  axis: TimeAxis = {
+    origin: toDayKey(new Date()),
+    days: 1,
+    dayStart: 0,
+    dayEnd: MINUTES_IN_DAY,
+  };
+  /** Day segments rendered above the hour labels in multi-day views. */
+  dayColumns: DayColumn[] = [];
+  /** Hour labels for the header timeline, positioned as percentages. */
+  ticks: { left: number; label: string }[] = [];
+  /** Number of grid columns drawn behind the header and every track. */
+  gridColumns = 24;
+  /** Date text shown in the header, falling back to the visible range. */
+  displayDateLabel = '';
+  /** Time text shown in the header, falling back to the visible window. */
+  displayTimeLabel = '';
 
   /** Current "now" indicator position (0–100) or -1 when hidden. */
   nowPercent = -1;
   /** Calculated CSS left offset that anchors the now-line to the timeline only. */
   nowLineLeft = '';
+  /** Whether the now-line is scrolled out of the visible timeline. */
+  nowLineHidden = false;
   /** Track elements used to measure actual timeline width for the now-line. */
   @ViewChildren('track') trackEls!: QueryList<ElementRef<HTMLElement>>;
   /** Subscription to track list changes for recalculating the now marker. */
   private trackChangeSub: Subscription | null = null;
   /** Window resize listener that realigns the now marker as widths change. */
   private unlistenResize: (() => void) | null = null;
-  /** Start-of-day marker for the current dataset, used for "now" detection. */
-  private currentDayStart: Date | null = null;
   /** Interval ID used to refresh the moving "now" indicator. */
   private nowTimer: any;
 
@@ -113,23 +496,71 @@ export class CompactCalendarComponent
   private createCtx: CreateContext | null = null;
   private unlistenMove: (() => void) | null = null;
   private unlistenUp: (() => void) | null = null;
+  private unlistenCancel: (() => void) | null = null;
+  /** Pending long press that starts a creation from a touch. */
+  private trackPress = new LongPress();
+
+  /** Finger distance and midpoint of an ongoing two-finger gesture. */
+  private pinch: { distance: number; x: number; y: number } | null = null;
+  /** Teardown for the two-finger pan and zoom listeners of the body. */
+  private unlistenTouch: (() => void) | null = null;
+
+  /** Slots whose committed change is waiting for host approval. */
+  private savingSlotIds = new Set<string | number>();
+  /** Subscriptions to Observable approvals that have not settled yet. */
+  private approvalSubs = new Set<Subscription>();
+  /**
+   * Bumped when the host replaces `data` or the component is destroyed, so
+   * approvals that settle afterwards are ignored.
+   */
+  private dataGeneration = 0;
+  /**
+   * Slot data the calendar last worked with, so that the host writing the
+   * calendar's own changes back into `data` is not taken for new data.
+   */
+  private knownData: CompactCalendarSlot[] = [];
+
+  /** Committed changes that can be undone (most recent last). */
+  private undoStack: SlotHistoryEntry[] = [];
+  /** Undone changes that can be re-applied (most recent last). */
+  private redoStack: SlotHistoryEntry[] = [];
+  /** Teardown for the global undo/redo keyboard shortcuts. */
+  private unlistenKeyDown: (() => void) | null = null;
 
-  /** Constant representing the total minutes contained in one day. */
-  readonly minutesInDay = 24 * 60;
+  /**
+   * Whether there is a change to undo. Disabled while a change is waiting for
+   * host approval so the history cannot race the pending result.
+   */
+  get canUndo(): boolean {
+    return this.undoStack.length > 0 && this.savingSlotIds.size === 0;
+  }
+
+  /** Whether there is an undone change to re-apply. */
+  get canRedo(): boolean {
+    return this.redoStack.length > 0 && this.savingSlotIds.size === 0;
+  }
+
+  /** Total minutes covered by the axis, including hidden night hours. */
+  get axisMinutes(): number {
+    return this.axis.days * MINUTES_IN_DAY;
+  }
 
   /** Slot currently opened in the detail badge. */
   selectedSlot: SlotViewModel | null = null;
+  /** Pixel width of the opened slot's bar when it was opened. */
+  selectedSlotWidth = 0;
   selectedSlotTimeRange = '';
 
   /**
-   * Warning message shown when a slot creation attempt is invalid due to
-   * collisions or non-working hours. Displayed as a red badge similar to the
-   * standard slot detail card.
+   * Warning shown while a move, resize or creation is invalid and after it
+   * has been rejected. Lists every violated rule and is displayed as a red
+   * badge similar to the standard slot detail card.
    */
-  creationWarning: { reason: 'conflict' | 'nonwork'; message: string } | null =
-    null;
-  /** Timeout that auto-hides the creation warning badge. */
-  private creationWarningTimer: any = null;
+  placementWarning: { title: string; issues: PlacementIssue[] } | null = null;
+  /** Timeout that auto-hides the placement warning badge. */
+  private placementWarningTimer: any = null;
+  /** Timeout that restores the zoom anchor once the new width is rendered. */
+  private zoomAnchorTimer: any = null;
 
   constructor(
     private renderer: Renderer2,
@@ -145,6 +576,7 @@ export class CompactCalendarComponent
     this.rebuild();
     this.startNowTimer();
     this.bindGlobalPointerEvents();
+    this.bindKeyboardShortcuts();
   }
 
   /**
@@ -159,9 +591,12 @@ export class CompactCalendarComponent
       this.realignNowLine()
     );
 
-    this.unlistenResize = this.renderer.listen('window', 'resize', () =>
-      this.realignNowLine()
-    );
+    this.unlistenResize = this.renderer.listen('window', 'resize', () => {
+      this.updateVisibleRows();
+      this.realignNowLine();
+    });
+
+    this.bindTouchGestures();
   }
 
   /**
@@ -170,7 +605,47 @@ export class CompactCalendarComponent
    * inputs.
    */
   ngOnChanges(changes: SimpleChanges): void {
-    if (changes['data'] || changes['workingHours'] || changes['dateLabel']) {
+    if (changes['data']) {
+      if (!samePlacements(this.knownData, this.data ?? [])) {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.savingSlotIds.clear();
+        this.dataGeneration++;
+      }
+      this.knownData = this.data ?? [];
+    }
+
+    if (changes['detailsLoader']) {
+      this.detailsCache.clear();
+    }
+
+    if (changes['groups']) {
+      this.collapsedGroups = new Set(
+        (this.groups ?? []).filter((g) => g.collapsed).map((g) => g.id)
+      );
+    }
+
+    if (
+      changes['data'] ||
+      changes['resources'] ||
+      changes['groups'] ||
+      changes['groupBy'] ||
+      changes['workingHours'] ||
+      changes['capacity'] ||
+      changes['buffers'] ||
+      changes['blockedPeriods'] ||
+      changes['statusRules'] ||
+      changes['statusFilter'] ||
+      changes['colorRules'] ||
+      changes['palette'] ||
+      changes['dateLabel'] ||
+      changes['viewDate'] ||
+      changes['viewRange'] ||
+      changes['viewStart'] ||
+      changes['viewEnd'] ||
+      changes['zoom'] ||
+      changes['timeLabel']
+    ) {
       this.rebuild();
     }
   }
@@ -183,10 +658,27 @@ export class CompactCalendarComponent
     if (this.invalidFlashTimer) {
       clearTimeout(this.invalidFlashTimer);
     }
-    if (this.creationWarningTimer) {
-      clearTimeout(this.creationWarningTimer);
+    if (this.placementWarningTimer) {
+      clearTimeout(this.placementWarningTimer);
     }
+    if (this.zoomAnchorTimer) {
+      clearTimeout(this.zoomAnchorTimer);
+    }
+    this.dataGeneration++;
+    this.approvalSubs.forEach((sub) => sub.unsubscribe());
     this.cleanupGlobalPointerEvents();
+    this.createCtx?.autoScroller?.stop();
+    this.createCtx?.unlockTouch?.();
+    this.marqueeCtx?.autoScroller?.stop();
+    this.trackPress.cancel();
+
+    if (this.unlistenTouch) {
+      this.unlistenTouch();
+    }
+
+    if (this.unlistenKeyDown) {
+      this.unlistenKeyDown();
+    }
 
     if (this.trackChangeSub) {
       this.trackChangeSub.unsubscribe();
@@ -202,145 +694,598 @@ export class CompactCalendarComponent
      =========================== */
 
   /**
-   * Recompute internal view models from the latest input data. Slots are
-   * snapped to the 30-minute grid, auto-colored (when needed), grouped by
-   * location, and paired with non-working overlays and the current-time marker.
+   * Recompute internal view models from the latest input data. The visible
+   * axis is resolved first; slots are then placed by their full date at
+   * their exact times, auto-colored (when needed), grouped by location,
+   * and paired with non-working overlays and the current-time marker. Slots
+   * that fall completely outside the visible range or window are not
+   * rendered.
    */
   private rebuild(): void {
-    if (!this.data || this.data.length === 0) {
-      this.locations = [];
+    this.buildAxis();
+    this.buildLocations();
+    this.pruneSelection();
+    this.pruneDetailsCache();
+
+    if (this.locations.length === 0) {
+      this.rows = [];
+      this.tabStop = null;
+      this.updateVisibleRows();
       this.slotsByLocation = {};
+      this.refreshSelectedSlot();
+      this.laneCountByLocation = {};
       this.nonWorkingByLocation = {};
+      this.blockedByLocation = {};
       this.nowPercent = -1;
       return;
     }
 
-    const first = this.data[0];
-    const day = new Date(first.dateTimeFrom);
-    this.currentDayStart = new Date(
-      day.getFullYear(),
-      day.getMonth(),
-      day.getDate()
-    );
+    this.slotsByLocation = {};
 
-    if (!this.dateLabel) {
-      this.dateLabel = day.toLocaleDateString();
-    }
+    for (const loc of this.locations) {
+      const slots = this.dataByLocation[loc] ?? [];
+      this.slotsByLocation[loc] = [];
 
-    this.locations = Array.from(new Set(this.data.map((d) => d.location)));
+      slots.forEach((s, idx) => {
+        const status = s.status ?? 'booked';
+        if (!this.isStatusShown(status)) return;
 
-    this.slotsByLocation = {};
+        const { start: fromM, end: toM } = slotInterval(s, this.axis.origin);
+        if (toM <= 0 || fromM >= this.axisMinutes) return;
 
-    for (const loc of this.locations) {
-      const slots = this.data.filter((d) => d.location === loc);
-      this.slotsByLocation[loc] = slots.map((s, idx) => {
-        const fromM = this.toMinutesFromMidnight(s.dateTimeFrom);
-        const toM = this.toMinutesFromMidnight(s.dateTimeTo);
-        const clampedFrom = this.snapToStep(
-          this.clamp(fromM, 0, this.minutesInDay),
-          30
-        );
-        const clampedTo = this.snapToStep(
-          this.clamp(toM, 0, this.minutesInDay),
-          30
-        );
-        const span = Math.max(5, clampedTo - clampedFrom);
+        const box = this.slotBox(fromM, toM);
+        if (!box) return;
 
-        const autoColor =
-          palette[
-            Math.abs(this.hashCode(String(s.id ?? `${loc}-${idx}`))) %
-              palette.length
-          ];
+        const color =
+          s.color ??
+          this.ruleColor(s) ??
+          this.autoColor(s.id ?? `${loc}-${idx}`);
+        const rule = this.statusRules?.[status];
 
-        return {
+        this.slotsByLocation[loc].push({
           id: s.id ?? `${loc}-${idx}`,
           tn: s.tn,
           carrier: s.carrier ?? '',
-          left: (clampedFrom / this.minutesInDay) * 100,
-          width: (span / this.minutesInDay) * 100,
-          color: s.color ?? autoColor,
+          fromMins: fromM,
+          toMins: toM,
+          left: box.left,
+          width: box.width,
+          clippedStart: box.clippedStart,
+          clippedEnd: box.clippedEnd,
+          ...this.bufferBoxes(loc, s.carrier, fromM, toM),
+          color,
+          darkBar: prefersLightText(color),
           invalid: false,
+          saving: this.savingSlotIds.has(s.id ?? `${loc}-${idx}`),
+          status,
+          frozen: rule?.draggable === false,
+          fixedSize: rule?.resizable === false,
           raw: s,
-        };
+        });
       });
+
+      this.assignLanes(loc);
     }
 
+    this.refreshSelectedSlot();
+    this.buildRows();
+    this.ensureTabStop();
     this.buildNonWorking();
+    this.buildBlocked();
     this.updateNowPercent();
     this.applyInvalidFlash();
   }
 
+  /**
+   * Resolve the rendered rows: configured resources sorted by `order` (stable
+   * for equal or missing values), followed by locations that only appear in
+   * the slot data, in data order. The slot data is indexed by location in
+   * the same pass.
+   */
+  private buildLocations(): void {
+    const resources = [...(this.resources ?? [])].sort(
+      (a, b) =>
+        (a.order ?? Number.MAX_SAFE_INTEGER) -
+        (b.order ?? Number.MAX_SAFE_INTEGER)
+    );
+
+    this.resourceByLocation = {};
+    for (const res of resources) {
+      this.resourceByLocation[res.id] ??= res;
+    }
+
+    this.dataByLocation = {};
+    this.statusCounts = {};
+    for (const slot of this.data ?? []) {
+      (this.dataByLocation[slot.location] ??= []).push(slot);
+      const status = slot.status ?? 'booked';
+      this.statusCounts[status] = (this.statusCounts[status] ?? 0) + 1;
+    }
+
+    this.locations = Array.from(
+      new Set([
+        ...resources.map((r) => r.id),
+        ...Object.keys(this.dataByLocation),
+      ])
+    );
+    this.locationOptions = this.locations.map((id) => ({
+      id,
+      name: this.resourceByLocation[id]?.name || id,
+    }));
+  }
+
+  /**
+   * Arrange the locations into rendered rows. Every location is placed under
+   * its group (resource `group`, else `groupBy`) and that group under its
+   * parents. Within a parent, subgroups come first, ordered by `order` and
+   * first appearance, followed by the parent's own locations. Collapsed
+   * groups hide their descendants and show their merged occupancy instead.
+   */
+  private buildRows(): void {
+    const groupById = new Map<string, CalendarResourceGroup>();
+    for (const group of this.groups ?? []) {
+      if (!groupById.has(group.id)) groupById.set(group.id, group);
+    }
+
+    const childGroups = new Map<string | null, string[]>();
+    const childLocations = new Map<string | null, string[]>();
+    const add = (
+      map: Map<string | null, string[]>,
+      key: string | null,
+      id: string
+    ) => {
+      const list = map.get(key) ?? [];
+      if (!list.includes(id)) list.push(id);
+      map.set(key, list);
+    };
+
+    for (const loc of this.locations) {
+      let groupId =
+        this.resourceByLocation[loc]?.group || this.groupBy?.(loc) || null;
+      add(childLocations, groupId, loc);
+
+      // walk up the parents; a cyclic chain is cut where it repeats
+      const seen = new Set<string>();
+      while (groupId && !seen.has(groupId)) {
+        seen.add(groupId);
+        let parent = groupById.get(groupId)?.parent || null;
+        if (parent && seen.has(parent)) parent = null;
+        add(childGroups, parent, groupId);
+        groupId = parent;
+      }
+    }
+
+    const order = (id: string) =>
+      groupById.get(id)?.order ?? Number.MAX_SAFE_INTEGER;
+    const rows: CalendarRow[] = [];
+    const rendered = new Set<string>();
+
+    // returns every location below `parent`, whether it is visible or not
+    const visit = (
+      parent: string | null,
+      depth: number,
+      visible: boolean
+    ): string[] => {
+      const locations: string[] = [];
+
+      const groups = [...(childGroups.get(parent) ?? [])].sort(
+        (a, b) => order(a) - order(b)
+      );
+      for (const id of groups) {
+        if (rendered.has(id)) continue;
+        rendered.add(id);
+
+        const row: CalendarRow = {
+          type: 'group',
+          id,
+          name: groupById.get(id)?.name || id,
+          depth,
+          collapsed: this.collapsedGroups.has(id),
+          count: 0,
+          occupancy: [],
+        };
+        if (visible) rows.push(row);
+
+        const inner = visit(id, depth + 1, visible && !row.collapsed);
+        row.count = inner.length;
+        if (visible && row.collapsed) {
+          row.occupancy = this.groupOccupancy(inner);
+        }
+        locations.push(...inner);
+      }
+
+      for (const location of childLocations.get(parent) ?? []) {
+        if (visible) rows.push({ type: 'location', location, depth });
+        locations.push(location);
+      }
+      return locations;
+    };
+
+    visit(null, 0, true);
+    this.rows = rows;
+    this.updateVisibleRows();
+  }
+
+  /**
+   * Pick the slice of `rows` that intersects the scrolled viewport (plus an
+   * overscan margin) and size the spacers that stand in for the rest. Row
+   * heights follow the CSS variables and the lane count of every location
+   * (the stylesheet fixes rows to exactly that height, whatever their
+   * label). The row of a slot being dragged and the row of the roving tab
+   * stop always stay rendered, so Tab still reaches the grid.
+   */
+  private updateVisibleRows(): void {
+    const body = this.bodyEl?.nativeElement;
+    const style = body ? getComputedStyle(body) : null;
+    const rowHeight =
+      parseFloat(style?.getPropertyValue('--row-height') ?? '') || 58;
+    const groupHeight =
+      parseFloat(style?.getPropertyValue('--group-height') ?? '') || 32;
+
+    // top offset of every row; each row also has a 1px bottom border
+    const offsets = [0];
+    for (const row of this.rows) {
+      const height =
+        row.type === 'group'
+          ? groupHeight
+          : rowHeight * (this.laneCountByLocation[row.location] || 1);
+      offsets.push(offsets[offsets.length - 1] + height + 1);
+    }
+
+    const top = (body?.scrollTop ?? 0) - ROW_OVERSCAN;
+    const bottom =
+      (body?.scrollTop ?? 0) +
+      (body?.clientHeight || window.innerHeight) +
+      ROW_OVERSCAN;
+
+    let first = 0;
+    while (first < this.rows.length && offsets[first + 1] <= top) first++;
+    let last = first;
+    while (last < this.rows.length && offsets[last] < bottom) last++;
+
+    const indexes = new Set<number>();
+    for (let i = first; i < last; i++) indexes.add(i);
+
+    // pinned rows are rendered on their own, without the rows in between
+    for (const location of [this.dragLocation, this.tabStop?.location]) {
+      if (location == null) continue;
+      const pinned = this.rows.findIndex(
+        (row) => row.type === 'location' && row.location === location
+      );
+      if (pinned >= 0) indexes.add(pinned);
+    }
+
+    const rendered = [...indexes].sort((a, b) => a - b);
+    const end = rendered.length ? rendered[rendered.length - 1] + 1 : 0;
+    this.visibleRowIndexes = rendered;
+    this.visibleRows = rendered.map((i) => this.rows[i]);
+    this.visibleRowGaps = rendered.map((idx, k) =>
+      k === 0 ? 0 : offsets[idx] - offsets[rendered[k - 1] + 1]
+    );
+    this.padTop = offsets[rendered[0] ?? 0];
+    this.padBottom = offsets[this.rows.length] - offsets[end];
+  }
+
+  /**
+   * Re-render the rows that scrolled into view and keep the header and the
+   * now-line aligned with the horizontally scrolled timeline.
+   */
+  onBodyScroll(): void {
+    this.updateVisibleRows();
+
+    const body = this.bodyEl?.nativeElement;
+    const head = this.headEl?.nativeElement;
+    if (body && head) {
+      head.scrollLeft = body.scrollLeft;
+    }
+
+    this.realignNowLine();
+  }
+
+  /** Stable identity of a rendered row for `*ngFor`. */
+  trackRow(_: number, row: CalendarRow): string {
+    return row.type === 'group'
+      ? `group:${row.id}`
+      : `location:${row.location}`;
+  }
+
+  /**
+   * Merge the rendered slots of several locations into occupancy segments
+   * (track percentages) for a collapsed group header.
+   */
+  private groupOccupancy(
+    locations: string[]
+  ): { left: number; width: number }[] {
+    const intervals: TimeInterval[] = [];
+    for (const loc of locations) {
+      for (const vm of this.slotsByLocation[loc] ?? []) {
+        intervals.push({ start: vm.fromMins, end: vm.toMins });
+      }
+    }
+
+    return mergeIntervals(intervals)
+      .map((i) => ({
+        left: this.toPercent(i.start),
+        width: this.toPercent(i.end) - this.toPercent(i.start),
+      }))
+      .filter((seg) => seg.width > 0);
+  }
+
+  /** Collapse or expand a row group. */
+  toggleGroup(groupId: string): void {
+    if (this.collapsedGroups.has(groupId)) {
+      this.collapsedGroups.delete(groupId);
+    } else {
+      this.collapsedGroups.add(groupId);
+    }
+    this.buildRows();
+  }
+
+  /**
+   * Stack the slots of a row into sub-lanes so overlapping slots are drawn
+   * below each other. Slots are placed greedily, by start time, into the
+   * first lane that is free at their start.
+   */
+  private assignLanes(location: string): void {
+    const list = this.slotsByLocation[location] ?? [];
+    const laneEnds: number[] = [];
+
+    for (const vm of [...list].sort((a, b) => a.fromMins - b.fromMins)) {
+      let lane = laneEnds.findIndex((end) => end <= vm.fromMins);
+      if (lane < 0) {
+        lane = laneEnds.length;
+        laneEnds.push(vm.toMins);
+      } else {
+        laneEnds[lane] = vm.toMins;
+      }
+      vm.lane = lane;
+    }
+
+    this.laneCountByLocation[location] = Math.max(1, laneEnds.length);
+  }
+
+  /**
+   * Resolve the first visible day, the number of days and the daily window
+   * from `viewDate`, `viewRange`, `viewStart` and `viewEnd`, then derive the
+   * header day segments and hour ticks. Long ranges use sparser ticks so
+   * labels stay readable.
+   */
+  private buildAxis(): void {
+    const anchor =
+      this.viewDate?.slice(0, 10) ||
+      this.data?.[0]?.dateTimeFrom?.slice(0, 10) ||
+      toDayKey(new Date());
+
+    let origin = anchor;
+    let days = 1;
+    if (this.viewRange === 'week') {
+      origin = isoWeekStart(anchor);
+      days = 7;
+    } else if (typeof this.viewRange === 'number') {
+      days = Math.max(1, Math.floor(this.viewRange));
+    }
+
+    const window = this.resolveWindow();
+    this.axis = { origin, days, dayStart: window.start, dayEnd: window.end };
+    if (!isOnAxis(this.axis, this.cursorMins)) {
+      this.cursorMins = offsetToAxis(this.axis, 0);
+    }
+
+    this.dayColumns = Array.from({ length: days }, (_, d) => {
+      const key = addDays(origin, d);
+      return {
+        key,
+        label: this.formatDay(key),
+        left: (d / days) * 100,
+        width: 100 / days,
+      };
+    });
+
+    const visible = axisVisibleMinutes(this.axis);
+    const visibleHours = visible / 60;
+    // a fixed zoom draws one labelled column per zoom step
+    const tickMinutes =
+      this.zoom && this.zoom > 0
+        ? this.zoom
+        : (visibleHours <= 24 ? 1 : visibleHours <= 72 ? 3 : 6) * 60;
+    this.gridColumns = visible / tickMinutes;
+    this.ticks = [];
+    for (let offset = 0; offset <= visible; offset += tickMinutes) {
+      const minuteOfDay = offsetToAxis(this.axis, offset) % MINUTES_IN_DAY;
+      const time =
+        offset > 0 && minuteOfDay === 0 ? MINUTES_IN_DAY : minuteOfDay;
+      this.ticks.push({
+        left: (offset / visible) * 100,
+        label:
+          time % 60 === 0
+            ? (time / 60).toString().padStart(2, '0')
+            : formatMinutes(time),
+      });
+    }
+
+    this.displayDateLabel =
+      this.dateLabel ||
+      (days === 1
+        ? this.dayColumns[0].label
+        : `${this.dayColumns[0].label} – ${this.dayColumns[days - 1].label}`);
+    this.displayTimeLabel =
+      this.timeLabel ||
+      `${formatMinutes(window.start)} - ${formatMinutes(window.end)}`;
+  }
+
+  /**
+   * Determine the visible daily window. Explicit `viewStart`/`viewEnd` win;
+   * missing bounds fall back to the working hours of all locations and then
+   * to the full day. Invalid or empty windows also fall back to the full day.
+   */
+  private resolveWindow(): { start: number; end: number } {
+    let start = parseTime(this.viewStart);
+    let end = parseTime(this.viewEnd);
+
+    if (start === null || end === null) {
+      const bounds = Object.values(this.workingHours ?? {})
+        .flat()
+        .map((e) => ({ start: parseTime(e.start), end: parseTime(e.end) }))
+        .filter(
+          (b): b is TimeInterval =>
+            b.start !== null && b.end !== null && b.start !== b.end
+        )
+        // overnight entries (e.g. 22:00–06:00) reach both ends of the day
+        .map((b) => (b.end < b.start ? { start: 0, end: MINUTES_IN_DAY } : b));
+
+      if (start === null) {
+        start = bounds.length ? Math.min(...bounds.map((b) => b.start)) : 0;
+      }
+      if (end === null) {
+        end = bounds.length
+          ? Math.max(...bounds.map((b) => b.end))
+          : MINUTES_IN_DAY;
+      }
+    }
+
+    start = this.clamp(start, 0, MINUTES_IN_DAY);
+    end = this.clamp(end, 0, MINUTES_IN_DAY);
+    if (end <= start) {
+      return { start: 0, end: MINUTES_IN_DAY };
+    }
+    return { start, end };
+  }
+
+  /** Short, locale-aware label for a "YYYY-MM-DD" day key. */
+  private formatDay(dayKey: string): string {
+    const [y, m, d] = dayKey.split('-').map(Number);
+    return new Date(y, m - 1, d).toLocaleDateString(undefined, {
+      weekday: 'short',
+      day: 'numeric',
+      month: 'numeric',
+    });
+  }
+
   /**
    * Translate working-hour definitions into track overlays that highlight the
-   * periods where the user cannot drop a slot. The overlays are stored as
+   * periods where the user cannot drop a slot. Every gap between the working
+   * intervals of the visible days is shaded, and the overlays are stored as
    * percentages for easy binding in the template.
    */
   private buildNonWorking(): void {
     this.nonWorkingByLocation = {};
 
-    const toMinutes = (time: string) => {
-      const [h, m] = time.split(':').map(Number);
-      return h * 60 + m;
-    };
-
     for (const loc of this.locations) {
-      const entries = this.workingHours[loc];
-      if (!entries || entries.length === 0) {
+      const range = { start: 0, end: this.axisMinutes };
+      const working = this.getWorkingIntervals(loc, range.start, range.end);
+      if (!working) {
         this.nonWorkingByLocation[loc] = [];
         continue;
       }
-      const wh = entries[0];
-      const startWh = toMinutes(wh.start);
-      const endWh = toMinutes(wh.end);
-
-      const segs: { start: number; end: number }[] = [];
-      if (startWh > 0) segs.push({ start: 0, end: startWh });
-      if (endWh < this.minutesInDay)
-        segs.push({ start: endWh, end: this.minutesInDay });
-
-      this.nonWorkingByLocation[loc] = segs.map((seg) => ({
-        left: (seg.start / this.minutesInDay) * 100,
-        width: ((seg.end - seg.start) / this.minutesInDay) * 100,
-      }));
+
+      this.nonWorkingByLocation[loc] = intervalGaps(working, range)
+        .map((seg) => ({
+          left: this.toPercent(seg.start),
+          width: this.toPercent(seg.end) - this.toPercent(seg.start),
+        }))
+        .filter((seg) => seg.width > 0);
+    }
+  }
+
+  /**
+   * Translate blocked periods into track overlays per location. Periods that
+   * fall outside the visible range or window are dropped.
+   */
+  private buildBlocked(): void {
+    this.blockedByLocation = {};
+
+    for (const period of this.blockedPeriods ?? []) {
+      const { start, end } = slotInterval(period, this.axis.origin);
+      const left = this.toPercent(start);
+      const width = this.toPercent(end) - left;
+      if (width <= 0) continue;
+
+      (this.blockedByLocation[period.location] ??= []).push({
+        left,
+        width,
+        reason: period.reason,
+      });
     }
   }
 
+  /** First blocked period of a location that overlaps an axis interval. */
+  private findBlockedPeriod(
+    location: string,
+    fromMins: number,
+    toMins: number
+  ): BlockedPeriod | null {
+    return (
+      (this.blockedPeriods ?? []).find(
+        (p) =>
+          p.location === location &&
+          this.overlaps(slotInterval(p, this.axis.origin), fromMins, toMins)
+      ) ?? null
+    );
+  }
+
   /* ===========================
      Time & working-hours helpers
      =========================== */
 
   /**
-   * Parse an ISO string (YYYY-MM-DDTHH:mm:ss) into absolute minutes from
-   * midnight. The conversion intentionally ignores time zones because the
-   * compact calendar operates in the provided local day context.
+   * Convert an axis minute value into a percentage of the track. Values in
+   * hidden hours collapse onto the edge of the nearest visible window.
    */
-  private toMinutesFromMidnight(iso: string): number {
-    if (!iso) return 0;
-    const parts = iso.split('T');
-    if (parts.length < 2) return 0;
+  private toPercent(mins: number): number {
+    return (
+      (axisToOffset(this.axis, mins) / axisVisibleMinutes(this.axis)) * 100
+    );
+  }
 
-    const timePart = parts[1]; // "HH:mm:ss" or "HH:mm"
-    const [hhStr, mmStr] = timePart.split(':');
-    const hh = Number(hhStr ?? 0);
-    const mm = Number(mmStr ?? 0);
+  /**
+   * Convert a horizontal pointer position over a track into axis minutes,
+   * snapped to `snapStep`.
+   */
+  private pointerToMinutes(clientX: number, rect: DOMRect): number {
+    const relX = this.clamp(clientX - rect.left, 0, rect.width);
+    const offset = (relX / rect.width) * axisVisibleMinutes(this.axis);
+    return this.snapToStep(offsetToAxis(this.axis, offset), this.snapStep);
+  }
 
-    const mins = hh * 60 + mm;
-    return isFinite(mins) ? mins : 0;
+  /**
+   * Compute the track box of an axis interval at its exact times (boxes are
+   * not snapped, whatever `snapStep` is). Returns `null` when the interval
+   * lies entirely in hidden hours; otherwise the box is at least five
+   * minutes wide so very short slots stay grabbable. Edges that fall outside
+   * the visible range or window are reported as clipped.
+   */
+  private slotBox(
+    fromMins: number,
+    toMins: number
+  ): {
+    left: number;
+    width: number;
+    clippedStart: boolean;
+    clippedEnd: boolean;
+  } | null {
+    const from = this.clamp(fromMins, 0, this.axisMinutes);
+    const to = this.clamp(toMins, 0, this.axisMinutes);
+
+    const left = this.toPercent(from);
+    const right = this.toPercent(Math.max(from, to));
+    if (right <= left && !isOnAxis(this.axis, from)) return null;
+
+    const minWidth = (5 / axisVisibleMinutes(this.axis)) * 100;
+    return {
+      left,
+      width: Math.max(minWidth, right - left),
+      clippedStart: !isOnAxis(this.axis, fromMins),
+      clippedEnd: !isOnAxis(this.axis, toMins),
+    };
   }
 
   /**
-   * Build a new ISO date-time by combining the date portion of `baseIso` with
-   * a time derived from minutes-from-midnight. Seconds are zero-padded so
-   * emitted values are deterministic.
+   * Build the ISO date-time for an axis minute value. The date is derived
+   * from the first visible day, so values past midnight land on the correct
+   * following day.
    */
-  private minutesToIso(baseIso: string, mins: number): string {
-    if (!baseIso) return baseIso;
-    const [datePart] = baseIso.split('T');
-    const h = Math.floor(mins / 60);
-    const m = mins % 60;
-    const hh = h.toString().padStart(2, '0');
-    const mm = m.toString().padStart(2, '0');
-    return `${datePart}T${hh}:${mm}:00`;
+  private minutesToIso(mins: number): string {
+    return axisMinutesToIso(this.axis.origin, mins);
   }
 
   /** Restrict `v` between `min` and `max`. */
@@ -353,20 +1298,42 @@ export class CompactCalendarComponent
     return Math.round(mins / step) * step;
   }
 
-  /** Get working hours as minutes-from-midnight for a location. */
-  private getWorkingBounds(
-    location: string
-  ): { start: number; end: number } | null {
+  /**
+   * Get the merged working intervals (axis minutes) of a location for every
+   * day touched by `fromMins … toMins`, plus one day on either side so a
+   * shift ending at 24:00 merges with one starting at 00:00 the next day.
+   * Returns `null` when the location has no working hours, meaning it is
+   * never restricted.
+   */
+  private getWorkingIntervals(
+    location: string,
+    fromMins: number,
+    toMins: number
+  ): TimeInterval[] | null {
     const entries = this.workingHours[location];
     if (!entries || entries.length === 0) return null;
 
-    const wh = entries[0];
-    const [sh, sm] = wh.start.split(':').map(Number);
-    const [eh, em] = wh.end.split(':').map(Number);
-    const start = sh * 60 + sm;
-    const end = eh * 60 + em;
-    if (!isFinite(start) || !isFinite(end)) return null;
-    return { start, end };
+    return workingIntervals(
+      entries,
+      this.axis.origin,
+      Math.floor(fromMins / MINUTES_IN_DAY) - 1,
+      Math.floor(toMins / MINUTES_IN_DAY) + 1
+    );
+  }
+
+  /**
+   * Whether an axis interval touches any non-working gap of a location, i.e.
+   * it is not fully contained in a single merged working interval.
+   */
+  private isOutsideWorkingHours(
+    location: string,
+    fromMins: number,
+    toMins: number
+  ): boolean {
+    const working = this.getWorkingIntervals(location, fromMins, toMins);
+    if (!working) return false;
+
+    return !working.some((w) => fromMins >= w.start && toMins <= w.end);
   }
 
   /* ===========================
@@ -383,28 +1350,29 @@ export class CompactCalendarComponent
   }
 
   /**
-   * Compute the percent-based position of the current time. If the displayed
-   * day is not today or the indicator is disabled, the marker is hidden by
-   * setting the value to -1.
+   * Compute the percent-based position of the current time. If today is not
+   * part of the visible range or the indicator is disabled, the marker is
+   * hidden by setting the value to -1.
    */
   private updateNowPercent(): void {
-    if (!this.showNowLine || !this.currentDayStart) {
+    if (!this.showNowLine) {
       this.setNowLine(-1);
       return;
     }
 
     const now = new Date();
-    if (now.toDateString() !== this.currentDayStart.toDateString()) {
+    const minutes =
+      isoToAxisMinutes(toDayKey(now), this.axis.origin) +
+      now.getHours() * 60 +
+      now.getMinutes() +
+      now.getSeconds() / 60;
+
+    if (!isOnAxis(this.axis, minutes)) {
       this.setNowLine(-1);
       return;
     }
 
-    const minutes =
-      now.getHours() * 60 + now.getMinutes() + now.getSeconds() / 60;
-
-    this.setNowLine(
-      this.clamp((minutes / this.minutesInDay) * 100, 0, 100)
-    );
+    this.setNowLine(this.clamp(this.toPercent(minutes), 0, 100));
   }
 
   /**
@@ -422,6 +1390,7 @@ export class CompactCalendarComponent
     }
 
     this.nowLineLeft = this.computeNowLineLeft(percent);
+    this.nowLineHidden = !this.isNowLineInView(percent);
   }
 
   /**
@@ -435,10 +1404,30 @@ export class CompactCalendarComponent
     }
 
     this.nowLineLeft = this.computeNowLineLeft(this.nowPercent);
+    this.nowLineHidden = !this.isNowLineInView(this.nowPercent);
+  }
+
+  /**
+   * Whether the given timeline position lies in the visible part of the
+   * scrolled body, i.e. right of the row labels and left of its right edge.
+   */
+  private isNowLineInView(percent: number): boolean {
+    const body = this.bodyEl?.nativeElement;
+    const trackEl = this.trackEls?.first?.nativeElement;
+    const labelEl = trackEl?.previousElementSibling;
+    if (!body || !trackEl || !labelEl) return true;
+
+    const trackRect = trackEl.getBoundingClientRect();
+    const x = trackRect.left + (trackRect.width * percent) / 100;
+    const bodyLeft = body.getBoundingClientRect().left;
+    return (
+      x >= labelEl.getBoundingClientRect().right &&
+      x <= bodyLeft + body.clientWidth
+    );
   }
 
   /**
-   * Translate a percent-of-day value to a concrete left CSS value. When track
+   * Translate a percent-of-axis value to a concrete left CSS value. When track
    * elements are available, their measured widths (minus the label column and
    * any scrollbars) are used for pixel-perfect alignment. Otherwise, the
    * component falls back to the percentage-based calc used previously.
@@ -462,26 +1451,350 @@ export class CompactCalendarComponent
      =========================== */
 
   /**
-   * Determine whether the proposed interval for a slot collides with any other
-   * slot in the same location. Overlap is detected using half-open interval
-   * checks to mirror scheduling semantics.
+   * Changeover buffer of a slot: carrier-specific values win over
+   * location-specific ones, which win over the default.
    */
-  private hasConflict(
-    slotId: string | number,
+  private getBuffer(
     location: string,
-    fromMins: number,
-    toMins: number
+    carrier?: string | null
+  ): Required<SlotBuffer> {
+    const byCarrier = carrier ? this.buffers?.byCarrier?.[carrier] : undefined;
+    const byLocation = this.buffers?.byLocation?.[location];
+    const fallback = this.buffers?.default;
+
+    return {
+      before: byCarrier?.before ?? byLocation?.before ?? fallback?.before ?? 0,
+      after: byCarrier?.after ?? byLocation?.after ?? fallback?.after ?? 0,
+    };
+  }
+
+  /** Track boxes of the hatched changeover zones next to a slot. */
+  private bufferBoxes(
+    location: string,
+    carrier: string | null | undefined,
+    fromMins: number,
+    toMins: number
+  ): Pick<SlotViewModel, 'bufferBefore' | 'bufferAfter'> {
+    const { before, after } = this.getBuffer(location, carrier);
+    const box = (start: number, end: number) => {
+      const left = this.toPercent(start);
+      const width = this.toPercent(end) - left;
+      return width > 0 ? { left, width } : null;
+    };
+
+    return {
+      bufferBefore: before > 0 ? box(fromMins - before, fromMins) : null,
+      bufferAfter: after > 0 ? box(toMins, toMins + after) : null,
+    };
+  }
+
+  /**
+   * Validate a proposed placement against disabled rows, working hours,
+   * blocked periods, capacity and changeover buffers, in that order. Returns
+   * the first issue found, or `null` when the slot may be placed there.
+   * `byLocation` holds the other slots to check against.
+   */
+  private checkPlacement(
+    slotId: string | number | null,
+    location: string,
+    fromMins: number,
+    toMins: number,
+    carrier?: string | null,
+    byLocation = this.dataByLocation
+  ): PlacementIssue | null {
+    const resource = this.resourceByLocation[location];
+    if (resource?.disabled) {
+      return {
+        reason: 'disabled',
+        message: `${resource.name || location} does not accept slots.`,
+      };
+    }
+
+    if (this.isOutsideWorkingHours(location, fromMins, toMins)) {
+      return {
+        reason: 'nonwork',
+        message: 'The slot falls outside working hours.',
+      };
+    }
+
+    const blocked = this.findBlockedPeriod(location, fromMins, toMins);
+    if (blocked) {
+      return { reason: 'blocked', message: `blocked: ${blocked.reason}` };
+    }
+
+    if (
+      this.hasConflict(slotId, location, fromMins, toMins, null, byLocation)
+    ) {
+      // a slot hidden by the status filter is not visible on the track
+      const hidden = (byLocation[location] ?? []).find(
+        (s) =>
+          s.id !== slotId &&
+          !this.isStatusShown(s.status ?? 'booked') &&
+          this.overlaps(slotInterval(s, this.axis.origin), fromMins, toMins)
+      );
+      return {
+        reason: 'conflict',
+        message: hidden
+          ? `The slot overlaps ${hidden.tn}, which is hidden by the status ` +
+            'filter.'
+          : 'The slot overlaps an existing slot.',
+      };
+    }
+
+    const own = this.getBuffer(location, carrier);
+    if (
+      this.hasConflict(slotId, location, fromMins, toMins, own, byLocation)
+    ) {
+      const neighbour = (byLocation[location] ?? []).find(
+        (s) =>
+          s.id !== slotId &&
+          this.overlaps(this.paddedInterval(s, own), fromMins, toMins)
+      );
+      const required = neighbour
+        ? this.requiredGap(neighbour, own, fromMins)
+        : Math.max(own.before, own.after);
+
+      return {
+        reason: 'buffer',
+        message: neighbour
+          ? `At least ${required} minutes of changeover time are required ` +
+            `next to ${neighbour.tn}` +
+            (this.isStatusShown(neighbour.status ?? 'booked')
+              ? '.'
+              : ', which is hidden by the status filter.')
+          : `At least ${required} minutes of changeover time are required.`,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Run the built-in placement check followed by every host validator for a
+   * proposed slot state. Returns all issues found (empty when valid). `data`
+   * replaces the committed slots when other slots move at the same time.
+   */
+  private validatePlacement(
+    action: SlotProposal['action'],
+    slot: CompactCalendarSlot,
+    previous: CompactCalendarSlot | null,
+    fromMins: number,
+    toMins: number,
+    data: CompactCalendarSlot[] = this.data
+  ): PlacementIssue[] {
+    let byLocation = this.dataByLocation;
+    if (data !== this.data) {
+      byLocation = {};
+      for (const s of data) (byLocation[s.location] ??= []).push(s);
+    }
+
+    const builtIn = this.checkPlacement(
+      slot.id,
+      slot.location,
+      fromMins,
+      toMins,
+      slot.carrier,
+      byLocation
+    );
+    const issues: PlacementIssue[] = builtIn ? [builtIn] : [];
+    const frozen = previous && this.statusIssue(slot, previous);
+    if (frozen) issues.unshift(frozen);
+
+    for (const validator of this.validators ?? []) {
+      const result = validator({ action, slot, previous, data });
+      if (!result) continue;
+      for (const violation of Array.isArray(result) ? result : [result]) {
+        issues.push({ reason: 'rule', ...violation });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Validate a drag of an existing slot: the proposal is built from the
+   * committed slot with the dragged location and times applied.
+   */
+  private validateDrag(event: SlotDragEvent): PlacementIssue[] {
+    const { slotId, location, fromMins, toMins, type } = event;
+    const previous = this.data.find((s) => s.id === slotId);
+    if (!previous) return [];
+
+    // a duplicate is a new slot next to the unchanged original
+    if (event.copy && this.dragCopyId !== null) {
+      const copy = this.placedSlot(
+        this.duplicateSlot(previous, this.dragCopyId),
+        location,
+        fromMins,
+        toMins
+      );
+      return this.validatePlacement('create', copy, null, fromMins, toMins);
+    }
+
+    const slot = this.placedSlot(previous, location, fromMins, toMins);
+    return this.validatePlacement(type, slot, previous, fromMins, toMins);
+  }
+
+  /**
+   * Issue raised when the status rules of the committed slot forbid a
+   * change: a slot that may not be dragged keeps its row and cannot have
+   * both edges shifted, one that may not be resized keeps its length.
+   */
+  private statusIssue(
+    slot: CompactCalendarSlot,
+    previous: CompactCalendarSlot
+  ): PlacementIssue | null {
+    const status = previous.status ?? 'booked';
+    const rule = this.statusRules?.[status];
+    if (!rule) return null;
+
+    const before = slotInterval(previous, this.axis.origin);
+    const after = slotInterval(slot, this.axis.origin);
+    const label = slotStatuses.find((s) => s.status === status)?.label;
+    const moved =
+      slot.location !== previous.location ||
+      (after.start !== before.start && after.end !== before.end);
+    const resized = after.end - after.start !== before.end - before.start;
+
+    if (rule.resizable === false && resized) {
+      return { reason: 'status', message: `${label} slots cannot be resized.` };
+    }
+    if (rule.draggable === false && moved) {
+      return { reason: 'status', message: `${label} slots cannot be moved.` };
+    }
+    return null;
+  }
+
+  /** Whether slots in the status pass the status filter. */
+  private isStatusShown(status: SlotStatus): boolean {
+    return !this.statusFilter || this.statusFilter.includes(status);
+  }
+
+  /** Apply a status filter toggled in the legend. */
+  onStatusFilterChange(filter: SlotStatus[] | null): void {
+    this.statusFilter = filter;
+    this.statusFilterChange.emit(filter);
+    this.rebuild();
+  }
+
+  /** Copy of a slot under a new id; a duplicate starts as a new booking. */
+  private duplicateSlot(
+    slot: CompactCalendarSlot,
+    id: string
+  ): CompactCalendarSlot {
+    const copy = { ...slot, id };
+    delete copy.status;
+    return copy;
+  }
+
+  /** Copy of a committed slot at another location and time. */
+  private placedSlot(
+    slot: CompactCalendarSlot,
+    location: string,
+    fromMins: number,
+    toMins: number
+  ): CompactCalendarSlot {
+    return {
+      ...slot,
+      location,
+      dateTimeFrom: this.minutesToIso(fromMins),
+      dateTimeTo: this.minutesToIso(toMins),
+    };
+  }
+
+  /** Draft of a slot being created, used for validation and the final emit. */
+  private draftSlot(
+    id: string,
+    location: string,
+    fromMins: number,
+    toMins: number
+  ): CompactCalendarSlot {
+    return {
+      id,
+      tn: 'NEW',
+      carrier: '',
+      location,
+      dateTimeFrom: this.minutesToIso(fromMins),
+      dateTimeTo: this.minutesToIso(toMins),
+    };
+  }
+
+  /**
+   * Interval of another slot widened by the changeover time required between
+   * it and a candidate with buffer `own`. The larger of the two adjacent
+   * buffers applies on each side, so the gap never needs to hold both.
+   */
+  private paddedInterval(
+    slot: CompactCalendarSlot,
+    own: Required<SlotBuffer> | null
+  ): TimeInterval {
+    const interval = slotInterval(slot, this.axis.origin);
+    if (!own) return interval;
+
+    const other = this.getBuffer(slot.location, slot.carrier);
+    return {
+      start: interval.start - Math.max(other.before, own.after),
+      end: interval.end + Math.max(other.after, own.before),
+    };
+  }
+
+  /** Changeover minutes required between `neighbour` and a candidate slot. */
+  private requiredGap(
+    neighbour: CompactCalendarSlot,
+    own: Required<SlotBuffer>,
+    fromMins: number
+  ): number {
+    const other = this.getBuffer(neighbour.location, neighbour.carrier);
+    const { start } = slotInterval(neighbour, this.axis.origin);
+    return start < fromMins
+      ? Math.max(other.after, own.before)
+      : Math.max(other.before, own.after);
+  }
+
+  /** Half-open overlap test between an interval and `fromMins … toMins`. */
+  private overlaps(
+    { start: a, end: b }: TimeInterval,
+    fromMins: number,
+    toMins: number
   ): boolean {
-    const others = this.data.filter(
-      (s) => s.location === location && s.id !== slotId
+    // intervals overlap if not (to <= a or from >= b)
+    return !(toMins <= a || fromMins >= b);
+  }
+
+  /** Concurrent slot capacity of a location (at least one). */
+  private getCapacity(location: string): number {
+    return Math.max(1, Math.floor(this.capacity[location] ?? 1));
+  }
+
+  /**
+   * Determine whether the proposed interval for a slot would push the number
+   * of concurrent slots in its location above the location's capacity.
+   * Overlap is detected using half-open interval checks to mirror scheduling
+   * semantics, so back-to-back slots never conflict. When the candidate's
+   * changeover buffer is given, other slots are widened by the required
+   * changeover time first.
+   */
+  private hasConflict(
+    slotId: string | number | null,
+    location: string,
+    fromMins: number,
+    toMins: number,
+    buffer: Required<SlotBuffer> | null = null,
+    byLocation = this.dataByLocation
+  ): boolean {
+    const others = (byLocation[location] ?? []).filter(
+      (s) => s.id !== slotId
     );
 
-    return others.some((s) => {
-      const a = this.toMinutesFromMidnight(s.dateTimeFrom);
-      const b = this.toMinutesFromMidnight(s.dateTimeTo);
-      // intervals overlap if not (to <= a or from >= b)
-      return !(toMins <= a || fromMins >= b);
-    });
+    const overlapping = others
+      .map((s) => this.paddedInterval(s, buffer))
+      .filter((interval) => this.overlaps(interval, fromMins, toMins))
+      .map(({ start, end }) => ({
+        start: Math.max(start, fromMins),
+        end: Math.min(end, toMins),
+      }));
+
+    return maxConcurrency(overlapping) + 1 > this.getCapacity(location);
   }
 
   /* ===========================
@@ -498,56 +1811,1274 @@ export class CompactCalendarComponent
       'pointermove',
       (ev: PointerEvent) => this.onWindowPointerMove(ev)
     );
-    this.unlistenUp = this.renderer.listen(
-      'window',
-      'pointerup',
-      (ev: PointerEvent) => this.onWindowPointerUp(ev)
+    this.unlistenUp = this.renderer.listen(
+      'window',
+      'pointerup',
+      (ev: PointerEvent) => this.onWindowPointerUp(ev)
+    );
+    this.unlistenCancel = this.renderer.listen('window', 'pointercancel', () =>
+      this.onWindowPointerCancel()
+    );
+  }
+
+  /** Remove global pointer listeners to avoid leaks. */
+  private cleanupGlobalPointerEvents(): void {
+    if (this.unlistenMove) {
+      this.unlistenMove();
+      this.unlistenMove = null;
+    }
+    if (this.unlistenUp) {
+      this.unlistenUp();
+      this.unlistenUp = null;
+    }
+    if (this.unlistenCancel) {
+      this.unlistenCancel();
+      this.unlistenCancel = null;
+    }
+  }
+
+  /* ===========================
+     Keyboard interaction
+     =========================== */
+
+  /** Track position of the keyboard creation cursor. */
+  get cursorBox(): { left: number; width: number } {
+    const left = this.toPercent(this.cursorMins);
+    const right = this.toPercent(this.cursorMins + KEYBOARD_SLOT_MINUTES);
+    return { left, width: right - left };
+  }
+
+  /**
+   * Remove a slot, going through host approval and the undo history. A slot
+   * whose previous change is still waiting for approval is kept. Returns
+   * whether the removal was started.
+   */
+  deleteSlot(
+    slotId: string | number,
+    source: SlotChangeSource = 'api'
+  ): boolean {
+    const previous = this.data.find((s) => s.id === slotId);
+    if (!previous) return false;
+    if (this.savingSlotIds.has(slotId)) {
+      this.announce(`${previous.tn} is still being saved.`);
+      return false;
+    }
+
+    if (this.selectedSlot?.id === slotId) {
+      this.selectedSlot = null;
+    }
+    this.applyChange('delete', previous, null, source);
+    return true;
+  }
+
+  /** Make a slot that received focus the roving tab stop. */
+  onSlotFocus(slot: SlotViewModel, location: string): void {
+    this.tabStop = { location, slotId: slot.id };
+  }
+
+  /** Make a row track that received focus the roving tab stop. */
+  onTrackFocus(location: string): void {
+    this.tabStop = { location, slotId: null };
+  }
+
+  /**
+   * Keyboard handling on a focused slot. Moves and resizes step by
+   * `snapStep` and run through the same validation as pointer drags.
+   */
+  onSlotKeyDown(
+    event: KeyboardEvent,
+    slot: SlotViewModel,
+    location: string
+  ): void {
+    const ctrl = event.ctrlKey || event.metaKey;
+    let change: SlotDragEvent | null = null;
+
+    switch (event.key) {
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        const delta =
+          event.key === 'ArrowLeft' ? -this.snapStep : this.snapStep;
+        const base = { slotId: slot.id, location };
+        if (ctrl) {
+          this.focusSlotNear(location, slot.fromMins, Math.sign(delta));
+        } else if (event.shiftKey && event.altKey) {
+          change = {
+            ...base,
+            type: 'resize-start',
+            fromMins: this.shiftOnAxis(slot.fromMins, delta),
+            toMins: slot.toMins,
+          };
+        } else if (event.shiftKey) {
+          change = {
+            ...base,
+            type: 'resize-end',
+            fromMins: slot.fromMins,
+            toMins: this.shiftOnAxis(slot.toMins, delta),
+          };
+        } else {
+          const fromMins = this.shiftOnAxis(slot.fromMins, delta);
+          change = {
+            ...base,
+            type: 'move',
+            fromMins,
+            toMins: fromMins + (slot.toMins - slot.fromMins),
+          };
+        }
+        break;
+      }
+      case 'ArrowUp':
+      case 'ArrowDown': {
+        const target = this.adjacentLocation(
+          location,
+          event.key === 'ArrowUp' ? -1 : 1
+        );
+        if (target === null) break;
+        if (ctrl) {
+          this.focusTrack(target);
+        } else {
+          change = {
+            slotId: slot.id,
+            location: target,
+            type: 'move',
+            fromMins: slot.fromMins,
+            toMins: slot.toMins,
+          };
+        }
+        break;
+      }
+      case 'Enter':
+        this.onSlotClick(slot);
+        break;
+      case ' ':
+        this.onSlotToggle(slot);
+        break;
+      case 'Delete':
+      case 'Backspace':
+        if (this.deleteSlot(slot.id, 'keyboard')) {
+          this.focusTrack(location);
+        }
+        break;
+      case 'Escape':
+        this.focusTrack(location);
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    event.stopPropagation();
+
+    if (change) {
+      this.applyKeyboardChange(change, slot);
+    }
+  }
+
+  /**
+   * Keyboard handling on a focused row track: arrows move the creation
+   * cursor (or the focus to neighbouring rows and slots with Ctrl), Enter or
+   * Space creates a slot at the cursor.
+   */
+  onTrackKeyDown(event: KeyboardEvent, location: string): void {
+    if (event.target !== event.currentTarget) return;
+    const ctrl = event.ctrlKey || event.metaKey;
+
+    switch (event.key) {
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        const direction = event.key === 'ArrowLeft' ? -1 : 1;
+        if (ctrl) {
+          this.focusSlotNear(location, this.cursorMins, direction);
+        } else {
+          this.moveCursor(
+            this.shiftOnAxis(this.cursorMins, direction * this.snapStep)
+          );
+        }
+        break;
+      }
+      case 'Home':
+        this.moveCursor(offsetToAxis(this.axis, 0));
+        break;
+      case 'End':
+        this.moveCursor(
+          offsetToAxis(
+            this.axis,
+            axisVisibleMinutes(this.axis) - KEYBOARD_SLOT_MINUTES
+          )
+        );
+        break;
+      case 'ArrowUp':
+      case 'ArrowDown': {
+        const target = this.adjacentLocation(
+          location,
+          event.key === 'ArrowUp' ? -1 : 1
+        );
+        if (target !== null) this.focusTrack(target);
+        break;
+      }
+      case 'Enter':
+      case ' ':
+        this.createAtCursor(location);
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+  }
+
+  /**
+   * Validate and commit a keyboard move or resize, then keep the focus on
+   * the slot and announce the outcome.
+   */
+  private applyKeyboardChange(
+    change: SlotDragEvent,
+    slot: SlotViewModel
+  ): void {
+    if (slot.saving) {
+      this.announce(`${slot.tn} is still being saved.`);
+      return;
+    }
+
+    // keep at least one step and do not push a visible edge off the axis
+    if (
+      change.toMins - change.fromMins < this.snapStep ||
+      change.fromMins < Math.min(0, slot.fromMins) ||
+      change.toMins > Math.max(this.axisMinutes, slot.toMins)
+    ) {
+      return;
+    }
+
+    const issues = this.validateDrag(change);
+    if (issues.length) {
+      const title = this.dragWarningTitle(change.type);
+      this.flashInvalid(change.slotId);
+      this.showPlacementWarning(issues, title);
+      this.announce(`${title}. ${issues.map((i) => i.message).join(' ')}`);
+      return;
+    }
+
+    this.clearPlacementWarning();
+    this.commitDragToData(
+      change.slotId,
+      change.location,
+      change.fromMins,
+      change.toMins,
+      change.type,
+      'keyboard'
+    );
+    this.announce(
+      `${slot.tn}: ${this.locationName(change.location)}, ` +
+        formatAxisRange(this.axis, change.fromMins, change.toMins)
+    );
+    this.focusSlot(change.slotId);
+  }
+
+  /** Create a slot of the default length at the keyboard cursor. */
+  private createAtCursor(location: string): void {
+    const from = this.cursorMins;
+    const to = from + KEYBOARD_SLOT_MINUTES;
+    const slot = this.draftSlot(this.newSlotId(), location, from, to);
+
+    const issues = this.validatePlacement('create', slot, null, from, to);
+    if (issues.length) {
+      const title = 'Cannot create a slot here';
+      this.showPlacementWarning(issues, title);
+      this.announce(`${title}. ${issues.map((i) => i.message).join(' ')}`);
+      return;
+    }
+
+    this.clearPlacementWarning();
+    this.applyChange('create', null, slot, 'keyboard');
+    this.announce(
+      `Created ${slot.tn} on ${this.locationName(location)}, ` +
+        formatAxisRange(this.axis, from, to)
+    );
+    this.focusSlot(slot.id);
+  }
+
+  /** Move the creation cursor and announce its time. */
+  private moveCursor(mins: number): void {
+    this.cursorMins = this.snapToStep(mins, this.snapStep);
+    const end = this.cursorMins + KEYBOARD_SLOT_MINUTES;
+    this.announce(formatAxisRange(this.axis, this.cursorMins, end));
+  }
+
+  /**
+   * Move an axis minute value by a number of visible minutes, skipping the
+   * hidden hours between two daily windows.
+   */
+  private shiftOnAxis(mins: number, deltaOffset: number): number {
+    return offsetToAxis(this.axis, axisToOffset(this.axis, mins) + deltaOffset);
+  }
+
+  /** Locations of the rendered (not collapsed) rows, in order. */
+  private rowLocations(): string[] {
+    return this.rows.flatMap((row) =>
+      row.type === 'location' ? [row.location] : []
+    );
+  }
+
+  /** Location of the rendered row `direction` rows away, if any. */
+  private adjacentLocation(
+    location: string,
+    direction: 1 | -1
+  ): string | null {
+    const locations = this.rowLocations();
+    const idx = locations.indexOf(location);
+    return idx < 0 ? null : locations[idx + direction] ?? null;
+  }
+
+  /** Display name of a location. */
+  private locationName(location: string): string {
+    return this.resourceByLocation[location]?.name || location;
+  }
+
+  /** Location whose rendered row currently holds the slot. */
+  private findSlotLocation(slotId: string | number): string | null {
+    for (const loc of this.rowLocations()) {
+      if (this.slotsByLocation[loc]?.some((s) => s.id === slotId)) return loc;
+    }
+    return null;
+  }
+
+  /**
+   * Keep the roving tab stop on something that is rendered: a slot is
+   * followed to its current row, and a stop on a removed slot or a hidden
+   * row falls back to its row or the first row.
+   */
+  private ensureTabStop(): void {
+    const stop = this.tabStop;
+    if (stop && stop.slotId !== null) {
+      const location = this.findSlotLocation(stop.slotId);
+      if (location !== null) {
+        this.tabStop = { location, slotId: stop.slotId };
+        return;
+      }
+    }
+
+    const locations = this.rowLocations();
+    const location =
+      stop && locations.includes(stop.location) ? stop.location : locations[0];
+    this.tabStop = location === undefined ? null : { location, slotId: null };
+  }
+
+  /** Focus the closest slot of a row before or after an axis minute. */
+  private focusSlotNear(
+    location: string,
+    mins: number,
+    direction: number
+  ): void {
+    const sorted = [...(this.slotsByLocation[location] ?? [])].sort(
+      (a, b) => a.fromMins - b.fromMins
+    );
+    const target =
+      direction > 0
+        ? sorted.find((s) => s.fromMins > mins)
+        : sorted.reverse().find((s) => s.fromMins < mins);
+    if (target) this.focusSlot(target.id);
+  }
+
+  /** Move the keyboard focus to a slot once it has been rendered. */
+  private focusSlot(slotId: string | number): void {
+    const location = this.findSlotLocation(slotId);
+    if (location === null) return;
+
+    this.tabStop = { location, slotId };
+    setTimeout(() =>
+      this.hostEl.nativeElement
+        .querySelector<HTMLElement>(
+          `.slot[data-id="${CSS.escape(String(slotId))}"]`
+        )
+        ?.focus()
+    );
+  }
+
+  /** Move the keyboard focus to the track of a row. */
+  private focusTrack(location: string): void {
+    this.tabStop = { location, slotId: null };
+    setTimeout(() =>
+      this.hostEl.nativeElement
+        .querySelector<HTMLElement>(
+          `.cal-row[data-location="${CSS.escape(location)}"] .rtrack`
+        )
+        ?.focus()
+    );
+  }
+
+  /** Read a message out through the live region. */
+  private announce(message: string): void {
+    // clear first so repeating the same message is announced again
+    this.announcement = '';
+    setTimeout(() => (this.announcement = message));
+  }
+
+  /** Stable identity of a rendered slot for `*ngFor`. */
+  trackSlot(_: number, slot: SlotViewModel): string | number {
+    return slot.id;
+  }
+
+  /* ===========================
+     Selection and bulk moves
+     =========================== */
+
+  /** Ids of the selected slots, in the order they were selected. */
+  get selectedSlotIds(): (string | number)[] {
+    return [...this.selection];
+  }
+
+  /** Replace the selection; ids of unknown slots are ignored. */
+  selectSlots(ids: Iterable<string | number>): void {
+    const known = new Set(this.data.map((s) => s.id));
+    this.setSelection([...ids].filter((id) => known.has(id)));
+  }
+
+  /** Deselect every slot. */
+  clearSelection(): void {
+    this.setSelection([]);
+  }
+
+  /**
+   * Shift every selected slot by `minutes` (negative values move them
+   * earlier). The slots are validated together and committed as one batch
+   * through `slotsChange`, or not at all. Returns whether the shift was
+   * applied.
+   */
+  shiftSelected(minutes: number): boolean {
+    const slots = this.data.filter((s) => this.selection.has(s.id));
+    if (!minutes || !slots.length) return false;
+    if (slots.some((s) => this.savingSlotIds.has(s.id))) return false;
+
+    const changes = slots.map((previous) => {
+      const { start, end } = slotInterval(previous, this.axis.origin);
+      return {
+        previous,
+        slot: this.placedSlot(
+          previous,
+          previous.location,
+          start + minutes,
+          end + minutes
+        ),
+      };
+    });
+    return this.commitGroup(
+      'move',
+      changes,
+      'Cannot shift the selected slots',
+      'api'
+    );
+  }
+
+  /** Add a slot to the selection or remove it (Ctrl/Shift-click, Space). */
+  onSlotToggle(slot: SlotViewModel): void {
+    const next = new Set(this.selection);
+    if (!next.delete(slot.id)) next.add(slot.id);
+    this.setSelection(next);
+  }
+
+  /** Replace the selection and emit `selectionChange` when it differs. */
+  private setSelection(ids: Iterable<string | number>): void {
+    const next = new Set(ids);
+    const changed =
+      next.size !== this.selection.size ||
+      [...next].some((id) => !this.selection.has(id));
+
+    this.selection = next;
+    if (changed) {
+      this.selectionChange.emit([...next]);
+    }
+  }
+
+  /** Drop selected ids whose slots no longer exist or are filtered out. */
+  private pruneSelection(): void {
+    if (!this.selection.size) return;
+    const known = new Set(
+      this.data
+        .filter((s) => this.isStatusShown(s.status ?? 'booked'))
+        .map((s) => s.id)
+    );
+    const kept = [...this.selection].filter((id) => known.has(id));
+    if (kept.length !== this.selection.size) {
+      this.setSelection(kept);
+    }
+  }
+
+  /**
+   * Snapshot the selection when one of its slots starts moving, so the other
+   * members follow it. Slots waiting for host approval stay behind.
+   */
+  private startGroupDrag(event: SlotDragEvent): GroupDrag | null {
+    const anchor = this.data.find((s) => s.id === event.slotId);
+    if (!anchor) return null;
+
+    const members = this.data
+      .filter(
+        (s) => this.selection.has(s.id) && !this.savingSlotIds.has(s.id)
+      )
+      .map((slot) => ({
+        slot,
+        interval: slotInterval(slot, this.axis.origin),
+      }));
+    if (members.length < 2) return null;
+
+    return {
+      location: anchor.location,
+      start: slotInterval(anchor, this.axis.origin).start,
+      members,
+    };
+  }
+
+  /**
+   * Proposed states of the group for the dragged anchor's position: every
+   * member moves by the anchor's time offset and by the same number of rows,
+   * limited so that no member leaves the rendered rows.
+   */
+  private groupChanges(event: SlotDragEvent): SlotChangeItem[] {
+    const { location, start, members } = this.groupDrag!;
+    const delta = event.fromMins - start;
+    const shiftRow = this.rowShift(
+      location,
+      event.location,
+      members.map(({ slot }) => slot.location)
+    );
+
+    return members.map(({ slot, interval }) => ({
+      previous: slot,
+      slot: this.placedSlot(
+        slot,
+        shiftRow(slot.location),
+        interval.start + delta,
+        interval.end + delta
+      ),
+    }));
+  }
+
+  /**
+   * Map locations by the row distance from `from` to `to`, limited so that
+   * none of `locations` leaves the rendered rows. Locations without a
+   * rendered row (e.g. inside a collapsed group) stay where they are.
+   */
+  private rowShift(
+    from: string,
+    to: string,
+    locations: string[]
+  ): (location: string) => string {
+    const rows = this.rowLocations();
+    const a = rows.indexOf(from);
+    const b = rows.indexOf(to);
+    let delta = a < 0 || b < 0 ? 0 : b - a;
+    for (const location of locations) {
+      const idx = rows.indexOf(location);
+      if (idx < 0) continue;
+      delta = Math.max(-idx, Math.min(rows.length - 1 - idx, delta));
+    }
+
+    return (location) => {
+      const idx = rows.indexOf(location);
+      return idx < 0 ? location : rows[idx + delta];
+    };
+  }
+
+  /**
+   * Validate slots that move, are created or are removed together. Each one
+   * is checked against the others at their new position, so members never
+   * collide with the places they are leaving. Removals need no check.
+   * Returns the issues per slot id.
+   */
+  private validateGroup(
+    action: SlotChangeRequest['action'],
+    changes: SlotChangeItem[]
+  ): Map<string | number, PlacementIssue[]> {
+    const moved = new Map<string | number, CompactCalendarSlot>();
+    const removed = new Set<string | number>();
+    const created: CompactCalendarSlot[] = [];
+    for (const { previous, slot } of changes) {
+      if (!slot) removed.add(previous!.id);
+      else if (!previous) created.push(slot);
+      else moved.set(slot.id, slot);
+    }
+    const result = new Map<string | number, PlacementIssue[]>();
+
+    for (const { previous, slot } of changes) {
+      if (!slot) continue;
+      const data = [
+        ...this.data
+          .filter((s) => !removed.has(s.id))
+          .map((s) => (s.id === slot.id ? s : moved.get(s.id) ?? s)),
+        ...created.filter((s) => s.id !== slot.id),
+      ];
+      // a removal replayed backwards is a creation, and vice versa
+      const kind = !previous
+        ? 'create'
+        : action === 'create' || action === 'delete'
+        ? 'edit'
+        : action;
+      const { start, end } = slotInterval(slot, this.axis.origin);
+      result.set(
+        slot.id,
+        this.validatePlacement(kind, slot, previous, start, end, data)
+      );
+    }
+    return result;
+  }
+
+  /** Issues of a group, each prefixed with the tn of the slot it concerns. */
+  private groupIssues(
+    changes: SlotChangeItem[],
+    issues: Map<string | number, PlacementIssue[]>
+  ): PlacementIssue[] {
+    return changes.flatMap(({ slot }) =>
+      slot
+        ? (issues.get(slot.id) ?? []).map((issue) => ({
+            ...issue,
+            message: `${slot.tn}: ${issue.message}`,
+          }))
+        : []
+    );
+  }
+
+  /**
+   * Commit slots that move, are created or are removed together, or reject
+   * the whole group when any member is invalid. Returns whether the changes
+   * were applied; `onSettled` (see `applyChanges`) also learns of a
+   * rejection.
+   */
+  private commitGroup(
+    action: SlotChangeRequest['action'],
+    changes: SlotChangeItem[],
+    warningTitle: string,
+    source: SlotChangeSource,
+    onSettled?: (applied: boolean) => void
+  ): boolean {
+    const issues = this.validateGroup(action, changes);
+    const invalid = changes.find(
+      ({ slot }) => slot && issues.get(slot.id)?.length
+    );
+
+    if (invalid) {
+      this.rebuild();
+      // a rejected copy has no element of its own
+      this.flashInvalid((invalid.previous ?? invalid.slot)!.id);
+      this.showPlacementWarning(
+        this.groupIssues(changes, issues),
+        warningTitle
+      );
+      onSettled?.(false);
+      return false;
+    }
+
+    this.clearPlacementWarning();
+    this.applyChanges(action, changes, source, onSettled);
+    return true;
+  }
+
+  /**
+   * Stretch the rubber band to the last pointer position and select every
+   * rendered slot it touches, in addition to the selection it started from.
+   */
+  private updateMarquee(): void {
+    const ctx = this.marqueeCtx;
+    const body = this.bodyEl?.nativeElement;
+    if (!ctx || !body) return;
+
+    const rect = body.getBoundingClientRect();
+    const startX = rect.left + ctx.startX - body.scrollLeft;
+    const startY = rect.top + ctx.startY - body.scrollTop;
+    const left = Math.min(startX, ctx.lastX);
+    const right = Math.max(startX, ctx.lastX);
+    const top = Math.min(startY, ctx.lastY);
+    const bottom = Math.max(startY, ctx.lastY);
+
+    ctx.el.style.left = `${left}px`;
+    ctx.el.style.top = `${top}px`;
+    ctx.el.style.width = `${right - left}px`;
+    ctx.el.style.height = `${bottom - top}px`;
+
+    const idByKey = new Map(this.data.map((s) => [String(s.id), s.id]));
+    const ids = new Set(ctx.base);
+    body.querySelectorAll<HTMLElement>('.slot[data-id]').forEach((el) => {
+      const box = el.getBoundingClientRect();
+      const id = idByKey.get(el.dataset['id'] ?? '');
+      if (
+        id !== undefined &&
+        box.right > left &&
+        box.left < right &&
+        box.bottom > top &&
+        box.top < bottom
+      ) {
+        ids.add(id);
+      }
+    });
+    // the event is emitted once the band is released
+    this.selection = ids;
+  }
+
+  /** Remove the rubber band and report the resulting selection. */
+  private endMarquee(): void {
+    const ctx = this.marqueeCtx;
+    if (!ctx) return;
+
+    ctx.el.remove();
+    ctx.autoScroller?.stop();
+    this.marqueeCtx = null;
+
+    const result = this.selection;
+    this.selection = ctx.base;
+    this.setSelection(result);
+  }
+
+  /* ===========================
+     Copy, paste and duplicate
+     =========================== */
+
+  /**
+   * Copy the selected slots, or the focused slot when nothing is selected.
+   * Returns whether anything was copied.
+   */
+  copy(): boolean {
+    const ids = this.selection.size
+      ? this.selection
+      : new Set(this.tabStop?.slotId != null ? [this.tabStop.slotId] : []);
+    const slots = this.data.filter((s) => ids.has(s.id));
+    if (!slots.length) return false;
+
+    this.clipboard = slots;
+    this.announce(
+      slots.length === 1
+        ? `${slots[0].tn} copied.`
+        : `${slots.length} slots copied.`
+    );
+    return true;
+  }
+
+  /**
+   * Paste the copied slots as new slots. The earliest one lands at
+   * `location` and `atMins` (axis minutes), which default to the focused row
+   * and its time cursor, or to the end of the focused slot; the others keep
+   * their time and row offsets. A paste into a row hidden by a collapsed
+   * group, or of slots from several rows of which one is hidden, is refused.
+   * The copies are validated together and emitted as creations. Returns
+   * whether they were created.
+   */
+  paste(location?: string, atMins?: number): boolean {
+    return this.pasteAt(location, atMins, 'api');
+  }
+
+  /** Paste the clipboard on behalf of `source`; see `paste()`. */
+  private pasteAt(
+    location: string | undefined,
+    atMins: number | undefined,
+    source: SlotChangeSource
+  ): boolean {
+    if (!this.clipboard.length) return false;
+
+    if (location === undefined) {
+      if (!this.tabStop) return false;
+      location = this.tabStop.location;
+    }
+    if (atMins === undefined) {
+      const focused = this.data.find((s) => s.id === this.tabStop?.slotId);
+      atMins = focused
+        ? slotInterval(focused, this.axis.origin).end
+        : this.cursorMins;
+    }
+
+    const sources = this.clipboard.map((slot) => ({
+      slot,
+      interval: slotInterval(slot, this.axis.origin),
+    }));
+    const first = sources.reduce((a, b) =>
+      b.interval.start < a.interval.start ? b : a
+    );
+    const delta = this.snapToStep(atMins, this.snapStep) - first.interval.start;
+
+    // rows are shifted by their rendered offset, so every row involved in
+    // a paste across rows must be rendered (not inside a collapsed group)
+    const rows = this.rowLocations();
+    const fromRows = new Set(sources.map(({ slot }) => slot.location));
+    const target = location;
+    const hidden = [target, ...(fromRows.size > 1 ? fromRows : [])].find(
+      (loc) => !rows.includes(loc)
+    );
+    if (hidden !== undefined) {
+      const message =
+        `${this.locationName(hidden)} is not shown; ` +
+        'expand its group to paste.';
+      this.showPlacementWarning(
+        [{ reason: 'disabled', message }],
+        'Cannot paste here'
+      );
+      this.announce(`Cannot paste here. ${message}`);
+      return false;
+    }
+    const shiftRow =
+      fromRows.size > 1
+        ? this.rowShift(first.slot.location, target, [...fromRows])
+        : () => target;
+
+    const changes = sources.map(({ slot, interval }) => ({
+      previous: null,
+      slot: this.placedSlot(
+        this.duplicateSlot(slot, this.newSlotId()),
+        shiftRow(slot.location),
+        interval.start + delta,
+        interval.end + delta
+      ),
+    }));
+
+    const title =
+      changes.length === 1
+        ? 'Cannot paste the slot here'
+        : 'Cannot paste the slots here';
+    if (!this.commitGroup('create', changes, title, source)) {
+      this.announce(`${title}.`);
+      return false;
+    }
+
+    this.setSelection(changes.map(({ slot }) => slot.id));
+    this.announce(
+      changes.length === 1
+        ? `${changes[0].slot.tn} pasted.`
+        : `${changes.length} slots pasted.`
+    );
+    return true;
+  }
+
+  /**
+   * Leave a copy of the original in place while an Alt-drag moves the
+   * slot, so the drag looks like the duplicate being pulled away.
+   */
+  private startCopyDrag(event: SlotDragEvent): void {
+    this.dragCopyId = this.newSlotId();
+
+    const list = this.slotsByLocation[event.location] ?? [];
+    const vm = list.find((s) => s.id === event.slotId);
+    if (vm) {
+      list.push({ ...vm, id: this.dragCopyId });
+    }
+  }
+
+  /* ===========================
+     Zoom
+     =========================== */
+
+  /** Label of the current zoom level for the header controls. */
+  get zoomLabel(): string {
+    if (!this.zoom) return 'Fit';
+    return this.zoom % 60 === 0 ? `${this.zoom / 60}h` : `${this.zoom}m`;
+  }
+
+  /** Whether a more detailed zoom level exists. */
+  get canZoomIn(): boolean {
+    return this.zoomStep(1) !== undefined;
+  }
+
+  /** Whether a wider zoom level exists. */
+  get canZoomOut(): boolean {
+    return this.zoomStep(-1) !== undefined;
+  }
+
+  /** Switch to the next more detailed zoom level. */
+  zoomIn(anchorX?: number): void {
+    const next = this.zoomStep(1);
+    if (next !== undefined) this.setZoom(next, anchorX);
+  }
+
+  /** Switch to the next wider zoom level. */
+  zoomOut(anchorX?: number): void {
+    const next = this.zoomStep(-1);
+    if (next !== undefined) this.setZoom(next, anchorX);
+  }
+
+  /** Ctrl+wheel (or a trackpad pinch) zooms around the pointer. */
+  onWheel(event: WheelEvent): void {
+    if (!event.ctrlKey || event.deltaY === 0) return;
+    event.preventDefault();
+
+    if (event.deltaY < 0) {
+      this.zoomIn(event.clientX);
+    } else {
+      this.zoomOut(event.clientX);
+    }
+  }
+
+  /**
+   * Listen for two-finger gestures on the body: moving both fingers pans the
+   * timeline and spreading or pinching them steps through the zoom levels.
+   * The listeners are registered directly as non-passive, which Angular's
+   * event bindings cannot express, so the page itself does not scroll or
+   * zoom meanwhile.
+   */
+  private bindTouchGestures(): void {
+    const body = this.bodyEl?.nativeElement;
+    if (!body) return;
+
+    const start = (ev: TouchEvent) => this.onBodyTouchStart(ev);
+    const move = (ev: TouchEvent) => this.onBodyTouchMove(ev);
+    const end = (ev: TouchEvent) => {
+      if (ev.touches.length < 2) this.pinch = null;
+    };
+
+    body.addEventListener('touchstart', start, { passive: true });
+    body.addEventListener('touchmove', move, { passive: false });
+    body.addEventListener('touchend', end);
+    body.addEventListener('touchcancel', end);
+
+    this.unlistenTouch = () => {
+      body.removeEventListener('touchstart', start);
+      body.removeEventListener('touchmove', move);
+      body.removeEventListener('touchend', end);
+      body.removeEventListener('touchcancel', end);
+    };
+  }
+
+  /** Start a two-finger gesture unless a drag or creation is running. */
+  private onBodyTouchStart(ev: TouchEvent): void {
+    this.pinch =
+      ev.touches.length === 2 && this.dragLocation === null
+        ? this.pinchState(ev.touches)
+        : null;
+  }
+
+  /**
+   * Pan the body by the movement of the finger midpoint and zoom around it
+   * whenever the finger distance changed by a whole zoom step.
+   */
+  private onBodyTouchMove(ev: TouchEvent): void {
+    const body = this.bodyEl?.nativeElement;
+    if (!this.pinch || !body || ev.touches.length !== 2) return;
+    ev.preventDefault();
+
+    const next = this.pinchState(ev.touches);
+    body.scrollLeft -= next.x - this.pinch.x;
+    body.scrollTop -= next.y - this.pinch.y;
+
+    const ratio = next.distance / this.pinch.distance;
+    if (ratio >= PINCH_ZOOM_RATIO) {
+      this.zoomIn(next.x);
+    } else if (ratio <= 1 / PINCH_ZOOM_RATIO) {
+      this.zoomOut(next.x);
+    } else {
+      // keep the reference distance until a whole step is reached
+      next.distance = this.pinch.distance;
+    }
+
+    this.pinch = next;
+    this.onBodyScroll();
+  }
+
+  /** Distance between two touches and their midpoint in client pixels. */
+  private pinchState(touches: TouchList): {
+    distance: number;
+    x: number;
+    y: number;
+  } {
+    const [a, b] = [touches[0], touches[1]];
+    return {
+      distance: Math.max(
+        1,
+        Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY)
+      ),
+      x: (a.clientX + b.clientX) / 2,
+      y: (a.clientY + b.clientY) / 2,
+    };
+  }
+
+  /**
+   * Zoom level `direction` steps away from the current one, or `undefined`
+   * past either end. A custom zoom value steps to the nearest listed level.
+   */
+  private zoomStep(direction: 1 | -1): number | null | undefined {
+    const current = this.zoom && this.zoom > 0 ? this.zoom : null;
+    if (current === null) {
+      return direction > 0 ? zoomLevels[1] : undefined;
+    }
+
+    const detailed = zoomLevels.filter((z): z is number => z !== null);
+    return direction > 0
+      ? detailed.find((z) => z < current)
+      : [...detailed].reverse().find((z) => z > current) ?? null;
+  }
+
+  /**
+   * Apply a zoom level and keep the time under `anchorX` (client pixels,
+   * defaults to the middle of the body) at the same place on screen.
+   */
+  private setZoom(zoom: number | null, anchorX?: number): void {
+    const body = this.bodyEl?.nativeElement;
+    const trackEl = this.trackEls?.first?.nativeElement;
+
+    let anchor: { x: number; ratio: number } | null = null;
+    if (body && trackEl) {
+      const bodyRect = body.getBoundingClientRect();
+      const trackRect = trackEl.getBoundingClientRect();
+      const x = anchorX ?? bodyRect.left + body.clientWidth / 2;
+      anchor = { x, ratio: (x - trackRect.left) / trackRect.width };
+    }
+
+    this.zoom = zoom;
+    this.zoomChange.emit(zoom);
+    this.rebuild();
+
+    // restore the anchor once the new timeline width has been rendered;
+    // a later zoom replaces the pending one
+    if (this.zoomAnchorTimer) {
+      clearTimeout(this.zoomAnchorTimer);
+    }
+    this.zoomAnchorTimer = setTimeout(() => {
+      this.zoomAnchorTimer = null;
+      const track = this.trackEls?.first?.nativeElement;
+      if (!anchor || !body || !track) return;
+      const rect = track.getBoundingClientRect();
+      body.scrollLeft += rect.left + rect.width * anchor.ratio - anchor.x;
+      this.onBodyScroll();
+    });
+  }
+
+  /* ===========================
+     Undo / redo
+     =========================== */
+
+  /**
+   * Revert the most recent committed change. The reverted state is
+   * validated, approved and emitted like any other change (an undone
+   * creation as `slotDelete`, a bulk move through `slotsChange`) so the host
+   * can persist it; when it is rejected the change stays undoable.
+   */
+  undo(source: SlotChangeSource = 'api'): void {
+    if (!this.canUndo) return;
+    const entry = this.undoStack.pop()!;
+    this.commitGroup(
+      entry.action,
+      entry.changes.map(({ previous, slot }) => ({
+        previous: slot,
+        slot: previous,
+      })),
+      'Cannot undo the change',
+      source,
+      (applied) => (applied ? this.redoStack : this.undoStack).push(entry)
+    );
+  }
+
+  /** Re-apply the most recently undone change, like `undo()` does. */
+  redo(source: SlotChangeSource = 'api'): void {
+    if (!this.canRedo) return;
+    const entry = this.redoStack.pop()!;
+    this.commitGroup(
+      entry.action,
+      entry.changes,
+      'Cannot redo the change',
+      source,
+      (applied) => (applied ? this.undoStack : this.redoStack).push(entry)
     );
   }
 
-  /** Remove global pointer listeners to avoid leaks. */
-  private cleanupGlobalPointerEvents(): void {
-    if (this.unlistenMove) {
-      this.unlistenMove();
-      this.unlistenMove = null;
-    }
-    if (this.unlistenUp) {
-      this.unlistenUp();
-      this.unlistenUp = null;
+  /** Add a committed change to the history and drop the redo branch. */
+  private recordHistory(entry: SlotHistoryEntry): void {
+    this.undoStack.push(entry);
+    if (this.undoStack.length > HISTORY_LIMIT) {
+      this.undoStack.shift();
     }
+    this.redoStack = [];
+  }
+
+  /**
+   * Listen for Ctrl+Z (undo) and Ctrl+Shift+Z / Ctrl+Y (redo), also with the
+   * Cmd key, and for Ctrl+C / Ctrl+V to copy and paste slots. Only keys
+   * pressed inside this calendar are handled, so the page and other
+   * calendars keep their own shortcuts; keys typed into form fields are left
+   * to the browser. Ctrl+C copies slots only from the grid while no text is
+   * selected.
+   */
+  private bindKeyboardShortcuts(): void {
+    this.unlistenKeyDown = this.renderer.listen(
+      'window',
+      'keydown',
+      (ev: KeyboardEvent) => {
+        if (!(ev.ctrlKey || ev.metaKey) || ev.altKey) return;
+
+        const target = ev.target as HTMLElement | null;
+        if (
+          !target ||
+          !this.hostEl.nativeElement.contains(target) ||
+          target.closest('input, textarea, select, [contenteditable]')
+        ) {
+          return;
+        }
+
+        const key = ev.key.toLowerCase();
+        if (key === 'z' && !ev.shiftKey) {
+          ev.preventDefault();
+          this.undo('keyboard');
+        } else if ((key === 'z' && ev.shiftKey) || key === 'y') {
+          ev.preventDefault();
+          this.redo('keyboard');
+        } else if (key === 'c' || key === 'v') {
+          // copying text (e.g. from the detail badge) is left to the browser
+          if (
+            key === 'c' &&
+            (!target.closest('.cal-body') || window.getSelection()?.toString())
+          ) {
+            return;
+          }
+
+          // leave the shortcut to the browser when there is nothing to do
+          const done =
+            key === 'c'
+              ? this.copy()
+              : this.pasteAt(undefined, undefined, 'keyboard');
+          if (done) {
+            ev.preventDefault();
+          }
+        }
+      }
+    );
   }
 
   /* ===========================
      Drag lifecycle from slot directive
      =========================== */
 
-  /** Clear any in-progress creation when a drag begins on an existing slot. */
-  onSlotDragStart(): void {
+  /**
+   * Clear any in-progress creation when a drag begins on an existing slot and
+   * keep the slot's row rendered while it is dragged.
+   */
+  onSlotDragStart(event: SlotDragEvent): void {
     this.createCtx = null;
+    this.dragLocation = event.location;
+    this.dragCopyId = null;
+    this.groupDrag = null;
+
+    if (event.copy) {
+      this.startCopyDrag(event);
+    } else if (
+      event.type === 'move' &&
+      this.selection.size > 1 &&
+      this.selection.has(event.slotId)
+    ) {
+      this.groupDrag = this.startGroupDrag(event);
+    }
   }
 
-  /** Live updates from the drag directive to preview the slot move/resize. */
+  /**
+   * Live updates from the drag directive to preview the slot move/resize. The
+   * proposal is validated on every step so the slot and the warning badge
+   * reflect an invalid position before the pointer is released.
+   */
   onSlotDragMove(event: SlotDragEvent): void {
-    const { slotId, location, fromMins, toMins } = event;
-    this.updateSlotViewModel(slotId, location, fromMins, toMins, false);
+    if (this.groupDrag) {
+      this.previewGroupDrag(event);
+      return;
+    }
+
+    const { slotId, location, fromMins, toMins, type } = event;
+    const issues = this.validateDrag(event);
+
+    this.dragLocation = location;
+    this.updateSlotViewModel(
+      slotId,
+      location,
+      fromMins,
+      toMins,
+      issues.length > 0
+    );
+
+    if (issues.length) {
+      this.showPlacementWarning(issues, this.dragWarningTitle(type, event.copy));
+    } else {
+      this.clearPlacementWarning();
+    }
   }
 
-  /** Validate and commit (or revert) a completed drag operation. */
-  onSlotDragEnd(event: SlotDragEvent): void {
-    const { slotId, location, fromMins, toMins } = event;
+  /**
+   * The browser aborted a drag (e.g. for a system gesture): restore the
+   * committed position without validating or emitting anything.
+   */
+  onSlotDragCancel(): void {
+    this.dragLocation = null;
+    this.groupDrag = null;
+    this.dragCopyId = null;
+    this.clearPlacementWarning();
+    this.rebuild();
+  }
 
-    const bounds = this.getWorkingBounds(location);
-    const outOfWorking = !!bounds && (fromMins < bounds.start || toMins > bounds.end);
+  /**
+   * Validate and commit (or revert) a completed drag operation. Rejected
+   * drops shake the slot and list the reasons in the warning badge.
+   */
+  onSlotDragEnd(event: SlotDragEvent): void {
+    const { slotId, location, fromMins, toMins, type } = event;
+    this.dragLocation = null;
+
+    if (this.groupDrag) {
+      const changes = this.groupChanges(event);
+      const moved = changes.some(
+        ({ previous, slot }) =>
+          slot!.location !== previous!.location ||
+          slotInterval(slot!, this.axis.origin).start !==
+            slotInterval(previous!, this.axis.origin).start
+      );
+      this.groupDrag = null;
+
+      if (moved) {
+        this.commitGroup(
+          'move',
+          changes,
+          'Cannot move the selected slots here',
+          'pointer'
+        );
+      } else {
+        this.rebuild();
+      }
+      return;
+    }
 
-    const conflict = this.hasConflict(slotId, location, fromMins, toMins);
+    const issues = this.validateDrag(event);
+    const copyId = this.dragCopyId;
+    this.dragCopyId = null;
 
-    if (conflict || outOfWorking) {
+    if (issues.length) {
       this.rebuild();
       this.flashInvalid(slotId);
+      this.showPlacementWarning(issues, this.dragWarningTitle(type, event.copy));
+      return;
+    }
+
+    this.clearPlacementWarning();
+
+    if (event.copy && copyId !== null) {
+      this.commitCopyToData(copyId, event);
       return;
     }
 
-    this.commitDragToData(slotId, location, fromMins, toMins);
+    this.commitDragToData(slotId, location, fromMins, toMins, type, 'pointer');
+  }
+
+  /**
+   * Preview a group drag: every member is placed at its proposed position
+   * and marked when it would be rejected.
+   */
+  private previewGroupDrag(event: SlotDragEvent): void {
+    const changes = this.groupChanges(event);
+    const issues = this.validateGroup('move', changes);
+
+    this.dragLocation = event.location;
+    for (const { slot } of changes) {
+      const { start, end } = slotInterval(slot!, this.axis.origin);
+      this.updateSlotViewModel(
+        slot!.id,
+        slot!.location,
+        start,
+        end,
+        (issues.get(slot!.id)?.length ?? 0) > 0
+      );
+    }
+
+    const all = this.groupIssues(changes, issues);
+    if (all.length) {
+      this.showPlacementWarning(all, 'Cannot move the selected slots here');
+    } else {
+      this.clearPlacementWarning();
+    }
   }
 
   /* ===========================
@@ -556,114 +3087,131 @@ export class CompactCalendarComponent
 
   /**
    * Global pointer-move handler that drives two flows:
-   * 1) Live visualization of a new slot being created on an empty track.
+   * 1) Live visualization of a new slot being created on an empty track,
+   *    auto-scrolling the body when the pointer nears one of its edges.
    */
   private onWindowPointerMove(event: PointerEvent): void {
+    // rubber-band selection
+    if (this.marqueeCtx) {
+      this.marqueeCtx.lastX = event.clientX;
+      this.marqueeCtx.lastY = event.clientY;
+      this.updateMarquee();
+      this.marqueeCtx.autoScroller?.update(event.clientX, event.clientY);
+      return;
+    }
+
     // creating new slot by dragging on empty track
     if (this.createCtx) {
-      const { trackEl, startMins, selectionEl, location } = this.createCtx;
+      this.createCtx.lastX = event.clientX;
+      this.updateCreateSelection();
+      this.createCtx.autoScroller?.update(event.clientX, event.clientY);
+    }
+  }
+
+  /**
+   * Stretch the creation selection to the last pointer position and validate
+   * it. Also runs after every auto-scroll step, as the track moves under the
+   * resting pointer.
+   */
+  private updateCreateSelection(): void {
+    if (this.createCtx) {
+      const { slotId, trackEl, startMins, selectionEl, location, lastX } =
+        this.createCtx;
       const rect = trackEl.getBoundingClientRect();
 
-      const relX = this.clamp(event.clientX - rect.left, 0, rect.width);
-      const curMins = this.snapToStep(
-        (relX / rect.width) * this.minutesInDay,
-        30
-      );
+      const curMins = this.pointerToMinutes(lastX, rect);
 
       const from = Math.min(startMins, curMins);
       const to = Math.max(startMins, curMins);
 
-      const bounds = this.getWorkingBounds(location);
-      const outOfWorking =
-        !!bounds && (from < bounds.start || to > bounds.end);
-      const conflict = this.hasConflict(null as any, location, from, to);
-
-      const invalid = conflict || outOfWorking;
+      const issues = this.validatePlacement(
+        'create',
+        this.draftSlot(slotId, location, from, to),
+        null,
+        from,
+        to
+      );
+      const invalid = issues.length > 0;
 
-      const leftPct = (from / this.minutesInDay) * 100;
-      const widthPct = ((to - from) / this.minutesInDay) * 100;
+      const leftPct = this.toPercent(from);
+      const widthPct = this.toPercent(to) - leftPct;
 
       selectionEl.style.left = `${leftPct}%`;
       selectionEl.style.width = `${widthPct}%`;
       selectionEl.classList.toggle('invalid', invalid);
 
       if (invalid) {
-        this.showCreationWarning(conflict ? 'conflict' : 'nonwork');
+        this.showPlacementWarning(issues, 'Cannot create a slot here');
       } else {
-        this.clearCreationWarning();
+        this.clearPlacementWarning();
       }
-      return;
     }
   }
 
   /**
-   * Complete a slot creation. Drops are validated
-   * against working hours and collisions; invalid drops revert and briefly
-   * animate, while valid drops persist and emit `slotChange`.
+   * Complete a slot creation. Drops are validated against the built-in
+   * placement rules and the host validators; invalid drops revert and show a
+   * warning, while valid drops persist and emit `slotChange`.
    */
   private onWindowPointerUp(event: PointerEvent): void {
+    if (this.marqueeCtx) {
+      this.endMarquee();
+      return;
+    }
+
     // finish creation
     if (this.createCtx) {
-      const { trackEl, location, startMins, selectionEl } = this.createCtx;
+      const { slotId, trackEl, location, startMins, selectionEl } =
+        this.createCtx;
       const rect = trackEl.getBoundingClientRect();
 
       selectionEl.remove();
+      this.createCtx.autoScroller?.stop();
+      this.createCtx.unlockTouch?.();
       this.createCtx = null;
+      this.dragLocation = null;
 
-      const relX = this.clamp(event.clientX - rect.left, 0, rect.width);
-      const curMins = this.snapToStep(
-        (relX / rect.width) * this.minutesInDay,
-        30
-      );
+      const curMins = this.pointerToMinutes(event.clientX, rect);
 
       let from = Math.min(startMins, curMins);
       let to = Math.max(startMins, curMins);
 
-      const minSpan = 30;
-      if (to - from < minSpan) {
-        return;
-      }
-
-      const bounds = this.getWorkingBounds(location);
-      if (bounds && (from < bounds.start || to > bounds.end)) {
-        this.showCreationWarning('nonwork');
+      // a creation spans at least one snap step
+      if (to - from < this.snapStep) {
         return;
       }
 
-      const conflict = this.hasConflict(null as any, location, from, to);
-      if (conflict) {
-        this.showCreationWarning('conflict');
+      const newSlot = this.draftSlot(slotId, location, from, to);
+      const issues = this.validatePlacement('create', newSlot, null, from, to);
+      if (issues.length) {
+        this.showPlacementWarning(issues, 'Cannot create a slot here');
         return;
       }
 
-      const baseIso = this.data[0]?.dateTimeFrom ?? new Date().toISOString();
-
-      const fromIso = this.minutesToIso(baseIso, from);
-      const toIso = this.minutesToIso(baseIso, to);
-
-      const newId = (window as any).crypto?.randomUUID
-        ? (window as any).crypto.randomUUID()
-        : `slot-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+      this.clearPlacementWarning();
 
-      const newSlot: CompactCalendarSlot = {
-        id: newId,
-        tn: 'NEW',
-        carrier: '',
-        location,
-        dateTimeFrom: fromIso,
-        dateTimeTo: toIso,
-      };
-
-      this.data = [...this.data, newSlot];
-      this.rebuild();
-      this.slotChange.emit(newSlot);
-
-      this.clearCreationWarning();
+      this.applyChange('create', null, newSlot, 'pointer');
 
       return;
     }
   }
 
+  /**
+   * Abandon a creation when the browser cancels its pointer, leaving the data
+   * untouched.
+   */
+  private onWindowPointerCancel(): void {
+    this.endMarquee();
+    if (!this.createCtx) return;
+
+    this.createCtx.selectionEl.remove();
+    this.createCtx.autoScroller?.stop();
+    this.createCtx.unlockTouch?.();
+    this.createCtx = null;
+    this.dragLocation = null;
+    this.clearPlacementWarning();
+  }
+
   /* ===========================
      New slot creation – track pointerdown
      =========================== */
@@ -671,7 +3219,8 @@ export class CompactCalendarComponent
   /**
    * Begin the slot-creation flow when the user drags on an empty portion of a
    * track. A temporary selection element is appended for visual feedback until
-   * the pointer is released.
+   * the pointer is released. Touch and pen contacts start it with a long
+   * press, so a swipe over the track scrolls instead.
    */
   onTrackPointerDown(
     event: PointerEvent,
@@ -680,22 +3229,77 @@ export class CompactCalendarComponent
   ): void {
     if (event.button !== 0) return;
 
-    this.clearCreationWarning();
+    this.clearPlacementWarning();
 
     // if clicked on a slot, ignore (slot has its own handler)
     const targetSlot = (event.target as HTMLElement | null)?.closest('.slot');
     if (targetSlot) return;
 
     event.stopPropagation();
+
+    const longPress = isLongPressPointer(event);
+    if (!longPress && (event.shiftKey || event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      this.beginMarquee(event, trackEl);
+      return;
+    }
+
+    this.clearSelection();
+
+    if (longPress) {
+      const { clientX } = event;
+      this.trackPress.start(event, () =>
+        this.beginCreate(trackEl, location, clientX, true)
+      );
+      return;
+    }
+
     event.preventDefault();
+    this.beginCreate(trackEl, location, event.clientX, false);
+  }
 
-    const rect = trackEl.getBoundingClientRect();
+  /**
+   * Start a rubber-band selection at the pointer. It adds to the current
+   * selection and auto-scrolls the body like a drag.
+   */
+  private beginMarquee(event: PointerEvent, trackEl: HTMLElement): void {
+    const body = this.bodyEl?.nativeElement;
+    if (!body) return;
+
+    const rect = body.getBoundingClientRect();
+    const el = document.createElement('div');
+    el.className = 'selection-marquee';
+    body.appendChild(el);
+
+    const labelEl = trackEl.previousElementSibling as HTMLElement | null;
+    this.marqueeCtx = {
+      startX: event.clientX - rect.left + body.scrollLeft,
+      startY: event.clientY - rect.top + body.scrollTop,
+      lastX: event.clientX,
+      lastY: event.clientY,
+      base: new Set(this.selection),
+      el,
+      autoScroller: new AutoScroller(
+        body,
+        () => this.updateMarquee(),
+        labelEl?.offsetWidth ?? 0
+      ),
+    };
+    this.updateMarquee();
+  }
 
-    const relX = this.clamp(event.clientX - rect.left, 0, rect.width);
-    const startMins = this.snapToStep(
-      (relX / rect.width) * this.minutesInDay,
-      30
-    );
+  /**
+   * Append the selection element at `clientX` and start following the
+   * pointer. A touch creation locks the browser's scrolling until it ends.
+   */
+  private beginCreate(
+    trackEl: HTMLElement,
+    location: string,
+    clientX: number,
+    touch: boolean
+  ): void {
+    const rect = trackEl.getBoundingClientRect();
+    const startMins = this.pointerToMinutes(clientX, rect);
 
     const selection = document.createElement('div');
     selection.className = 'slot-selection';
@@ -710,19 +3314,43 @@ export class CompactCalendarComponent
 
     trackEl.appendChild(selection);
 
+    const slotId = this.newSlotId();
+
+    const body = this.bodyEl?.nativeElement;
+    const labelEl = trackEl.previousElementSibling as HTMLElement | null;
+
     this.createCtx = {
+      slotId,
       trackEl,
       location,
-      startX: event.clientX,
+      startX: clientX,
       startMins,
+      lastX: clientX,
       selectionEl: selection,
+      autoScroller: body
+        ? new AutoScroller(
+            body,
+            () => this.updateCreateSelection(),
+            labelEl?.offsetWidth ?? 0
+          )
+        : null,
+      unlockTouch: touch ? lockTouchGestures() : null,
     };
+    // keep the row rendered if auto-scrolling moves it out of view
+    this.dragLocation = location;
   }
 
   /* ===========================
      Helpers
      =========================== */
 
+  /** Fresh identifier for a slot created in the calendar. */
+  private newSlotId(): string {
+    return (window as any).crypto?.randomUUID
+      ? (window as any).crypto.randomUUID()
+      : `slot-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  }
+
   /** Find location (row) under the given screen point. */
   private getLocationAtPoint(x: number, y: number): string | null {
     const el = document.elementFromPoint(x, y) as HTMLElement | null;
@@ -738,16 +3366,17 @@ export class CompactCalendarComponent
   /**
    * Update slot position & row in the in-memory view model. This enables live
    * drag previews without mutating the underlying data until the drop is
-   * validated.
+   * validated; `violating` marks a preview position that would be rejected.
    */
   private updateSlotViewModel(
     slotId: string | number,
     location: string,
     fromMins: number,
     toMins: number,
-    invalid = false
+    violating = false
   ): void {
     let vm: SlotViewModel | null = null;
+    let prevLocation = location;
 
     for (const loc of this.locations) {
       const list = this.slotsByLocation[loc];
@@ -755,24 +3384,19 @@ export class CompactCalendarComponent
       const idx = list.findIndex((s) => s.id === slotId);
       if (idx >= 0) {
         vm = list[idx];
+        prevLocation = loc;
         list.splice(idx, 1);
         break;
       }
     }
     if (!vm) return;
 
-    const clampedFrom = this.snapToStep(
-      this.clamp(fromMins, 0, this.minutesInDay),
-      30
-    );
-    const clampedTo = this.snapToStep(
-      this.clamp(toMins, 0, this.minutesInDay),
-      30
-    );
-    const span = Math.max(5, clampedTo - clampedFrom);
-
-    const left = (clampedFrom / this.minutesInDay) * 100;
-    const width = (span / this.minutesInDay) * 100;
+    const box = this.slotBox(fromMins, toMins) ?? {
+      left: vm.left,
+      width: 0,
+      clippedStart: true,
+      clippedEnd: true,
+    };
 
     if (!this.slotsByLocation[location]) {
       this.slotsByLocation[location] = [];
@@ -780,10 +3404,15 @@ export class CompactCalendarComponent
 
     this.slotsByLocation[location].push({
       ...vm,
-      left,
-      width,
-      invalid,
+      fromMins,
+      toMins,
+      ...box,
+      ...this.bufferBoxes(location, vm.raw.carrier, fromMins, toMins),
+      violating,
     });
+
+    this.assignLanes(prevLocation);
+    this.assignLanes(location);
   }
 
   /**
@@ -836,70 +3465,334 @@ export class CompactCalendarComponent
   }
 
   /**
-   * Surface a warning badge when slot creation is blocked by conflicts or
-   * non-working hours. The badge auto-hides after a short delay.
+   * Surface a warning badge listing why a placement is invalid. The badge
+   * auto-hides after a short delay unless it is refreshed by a live drag.
    */
-  private showCreationWarning(reason: 'conflict' | 'nonwork'): void {
-    const message =
-      reason === 'conflict'
-        ? 'Cannot create a slot here because it overlaps an existing slot.'
-        : 'Cannot create a slot here because it falls outside working hours.';
-
-    this.creationWarning = { reason, message };
+  private showPlacementWarning(issues: PlacementIssue[], title: string): void {
+    this.placementWarning = { title, issues };
 
-    if (this.creationWarningTimer) {
-      clearTimeout(this.creationWarningTimer);
+    if (this.placementWarningTimer) {
+      clearTimeout(this.placementWarningTimer);
     }
 
-    this.creationWarningTimer = setTimeout(() => {
-      this.creationWarning = null;
-      this.creationWarningTimer = null;
+    this.placementWarningTimer = setTimeout(() => {
+      this.placementWarning = null;
+      this.placementWarningTimer = null;
     }, 2500);
   }
 
-  /** Hide the creation warning and clear any pending timeout. */
-  private clearCreationWarning(): void {
-    if (this.creationWarningTimer) {
-      clearTimeout(this.creationWarningTimer);
-      this.creationWarningTimer = null;
+  /** Hide the placement warning and clear any pending timeout. */
+  private clearPlacementWarning(): void {
+    if (this.placementWarningTimer) {
+      clearTimeout(this.placementWarningTimer);
+      this.placementWarningTimer = null;
+    }
+    this.placementWarning = null;
+  }
+
+  /** Warning title matching the kind of drag that was rejected. */
+  private dragWarningTitle(type: DragType, copy = false): string {
+    if (copy) return 'Cannot duplicate the slot here';
+    return type === 'move'
+      ? 'Cannot move the slot here'
+      : 'Cannot resize the slot like this';
+  }
+
+  /**
+   * Create the duplicate of an Alt-dragged slot at the drop position. A drop
+   * on the original's own place is ignored.
+   */
+  private commitCopyToData(copyId: string, event: SlotDragEvent): void {
+    const original = this.data.find((s) => s.id === event.slotId);
+    if (!original) {
+      this.rebuild();
+      return;
+    }
+
+    const fromMins = this.snapToStep(event.fromMins, this.snapStep);
+    const toMins = this.snapToStep(event.toMins, this.snapStep);
+    const { start, end } = slotInterval(original, this.axis.origin);
+    if (
+      original.location === event.location &&
+      start === fromMins &&
+      end === toMins
+    ) {
+      this.rebuild();
+      return;
     }
-    this.creationWarning = null;
+
+    const copy = this.duplicateSlot(original, copyId);
+    this.applyChange(
+      'create',
+      null,
+      this.placedSlot(copy, event.location, fromMins, toMins),
+      'pointer'
+    );
   }
 
-  /** Commit the final drag result into the underlying data. */
+  /**
+   * Commit the final drag result into the underlying data. Minutes are axis
+   * values, so the resulting ISO strings carry the day the slot was dropped
+   * on, not the day it started from. The directive already clamps the edges
+   * it moved, so an edge outside the visible range is kept as-is.
+   */
   private commitDragToData(
     slotId: string | number,
     newLocation: string,
     newFrom: number,
-    newTo: number
+    newTo: number,
+    type: DragType,
+    source: SlotChangeSource
   ): void {
-    const fromClamped = this.snapToStep(
-      this.clamp(newFrom, 0, this.minutesInDay),
-      30
+    const fromClamped = this.snapToStep(newFrom, this.snapStep);
+    const toClamped = this.snapToStep(newTo, this.snapStep);
+
+    const previous = this.data.find((s) => s.id === slotId);
+    if (!previous) {
+      this.rebuild();
+      return;
+    }
+
+    this.applyChange(
+      type,
+      previous,
+      {
+        ...previous,
+        location: newLocation,
+        dateTimeFrom: this.minutesToIso(fromClamped),
+        dateTimeTo: this.minutesToIso(toClamped),
+      },
+      source
     );
-    const toClamped = this.snapToStep(
-      this.clamp(newTo, 0, this.minutesInDay),
-      30
+  }
+
+  /**
+   * Apply a committed change to the data and emit `slotChange` (or
+   * `slotDelete` when `slot` is `null`). With a `beforeSlotChange` hook the
+   * change is applied optimistically and the slot shows as saving; the event
+   * only fires once the host approves, while a refusal restores `previous`
+   * (or removes a created slot) and explains why.
+   */
+  private applyChange(
+    action: SlotChangeRequest['action'],
+    previous: CompactCalendarSlot | null,
+    slot: CompactCalendarSlot | null,
+    source: SlotChangeSource
+  ): void {
+    this.applyChanges(action, [{ previous, slot }], source);
+  }
+
+  /**
+   * Apply several changes as one unit: one history entry and, for more than
+   * one change, one `slotsChange` event. The host is asked to approve the
+   * whole batch in a single request, so a refusal rolls back exactly what
+   * the host did not save. `onSettled` replaces recording the history
+   * entry and learns whether the changes were applied.
+   */
+  private applyChanges(
+    action: SlotChangeRequest['action'],
+    changes: SlotChangeItem[],
+    source: SlotChangeSource,
+    onSettled?: (applied: boolean) => void
+  ): void {
+    const ids = changes.map(({ previous, slot }) => (slot ?? previous)!.id);
+    changes.forEach(({ slot }, i) => this.writeSlot(ids[i], slot));
+    const settle =
+      onSettled ??
+      ((applied: boolean) => {
+        if (applied) this.recordHistory({ action, changes });
+      });
+
+    if (!this.beforeSlotChange) {
+      this.rebuild();
+      settle(true);
+      this.notifyChanges(action, changes, source);
+      return;
+    }
+
+    ids.forEach((id) => this.savingSlotIds.add(id));
+    this.rebuild();
+
+    const generation = this.dataGeneration;
+
+    const [{ previous, slot }] = changes;
+    this.requestApproval({
+      action,
+      slot,
+      previous,
+      source,
+      changes: changes.map((change) => ({ ...change })),
+    }).then((refusal) => {
+      // the slots belong to data that was replaced meanwhile
+      if (generation !== this.dataGeneration) return;
+      ids.forEach((id) => this.savingSlotIds.delete(id));
+
+      if (refusal === null) {
+        this.rebuild();
+        settle(true);
+        this.notifyChanges(action, changes, source);
+        return;
+      }
+
+      changes.forEach(({ previous }, i) => this.writeSlot(ids[i], previous));
+      this.rebuild();
+      settle(false);
+      this.flashInvalid(ids[0]);
+      this.showPlacementWarning(
+        [{ reason: 'rejected', message: refusal }],
+        'Change was not saved'
+      );
+    });
+  }
+
+  /**
+   * Emit applied changes: the typed output matching a single change, or
+   * `slotsChange` for a batch, plus `slotChange` with every new state.
+   */
+  private notifyChanges(
+    action: SlotChangeRequest['action'],
+    changes: SlotChangeItem[],
+    source: SlotChangeSource
+  ): void {
+    const events = changes.map((change) =>
+      this.changeEvent(action, change, source)
     );
+    if (events.length > 1) {
+      this.slotsChange.emit(events);
+      for (const event of events) {
+        if (event.after) this.slotChange.emit(event.after);
+      }
+      return;
+    }
 
-    const updated: CompactCalendarSlot[] = this.data.map((slot) => {
-      if (slot.id !== slotId) return slot;
+    const [event] = events;
+    switch (event.kind) {
+      case 'create':
+        this.slotCreate.emit(event);
+        this.slotChange.emit(event.after);
+        break;
+      case 'update':
+        this.slotUpdate.emit(event);
+        this.slotChange.emit(event.after);
+        break;
+      case 'delete':
+        this.slotDelete.emit(event);
+        break;
+    }
+  }
 
+  /**
+   * Typed event of an applied change. The kind follows from the states, so
+   * an undone creation is reported as a deletion; only moves and resizes
+   * carry a drag type.
+   */
+  private changeEvent(
+    action: SlotChangeRequest['action'],
+    { previous, slot }: SlotChangeItem,
+    source: SlotChangeSource
+  ): SlotChangeEvent {
+    if (!previous) {
       return {
-        ...slot,
-        location: newLocation,
-        dateTimeFrom: this.minutesToIso(slot.dateTimeFrom, fromClamped),
-        dateTimeTo: this.minutesToIso(slot.dateTimeTo, toClamped),
+        kind: 'create',
+        before: null,
+        after: slot!,
+        dragType: null,
+        source,
+      };
+    }
+    if (!slot) {
+      return {
+        kind: 'delete',
+        before: previous,
+        after: null,
+        dragType: null,
+        source,
       };
+    }
+
+    const dragType =
+      action === 'create' || action === 'edit' || action === 'delete'
+        ? null
+        : action;
+    return { kind: 'update', before: previous, after: slot, dragType, source };
+  }
+
+  /**
+   * Ask the host to approve a change. Resolves to `null` when approved, or to
+   * the reason given for the refusal.
+   */
+  private async requestApproval(
+    change: SlotChangeRequest
+  ): Promise<string | null> {
+    const fallback = 'The change was rejected.';
+    try {
+      const pending = this.beforeSlotChange!(change);
+      const result = isObservable(pending)
+        ? await this.firstApproval(pending)
+        : await pending;
+      return result === false ? fallback : null;
+    } catch (err) {
+      if (err instanceof Error && err.message) return err.message;
+      if (typeof err === 'string' && err) return err;
+      return fallback;
+    }
+  }
+
+  /**
+   * First value of an Observable approval (`undefined` when it completes
+   * empty). The subscription is kept until it settles so that
+   * `ngOnDestroy` can cancel it.
+   */
+  private firstApproval(pending: Observable<unknown>): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const sub = pending.pipe(take(1)).subscribe({
+        next: resolve,
+        error: reject,
+        complete: () => resolve(undefined),
+      });
+      this.approvalSubs.add(sub);
+      // runs at once when the approval already settled synchronously
+      sub.add(() => this.approvalSubs.delete(sub));
     });
+  }
 
-    this.data = updated;
-    this.rebuild();
+  /**
+   * Replace the slot with the given id in `data`, append it when missing, or
+   * remove it when `slot` is `null`.
+   */
+  private writeSlot(
+    slotId: string | number,
+    slot: CompactCalendarSlot | null
+  ): void {
+    if (!slot) {
+      this.data = this.data.filter((s) => s.id !== slotId);
+    } else {
+      const idx = this.data.findIndex((s) => s.id === slotId);
+      this.data =
+        idx < 0
+          ? [...this.data, slot]
+          : this.data.map((s, i) => (i === idx ? slot : s));
+    }
+    this.knownData = this.data;
+  }
 
-    const updatedSlot = this.data.find((s) => s.id === slotId);
-    if (updatedSlot) {
-      this.slotChange.emit(updatedSlot);
+  /** Colour of the first colour rule that applies to the slot. */
+  private ruleColor(slot: CompactCalendarSlot): string | null {
+    for (const rule of this.colorRules ?? []) {
+      if (typeof rule === 'function') {
+        const color = rule(slot);
+        if (color) return color;
+      } else if (colorRuleMatches(rule, slot)) {
+        return rule.color;
+      }
     }
+    return null;
+  }
+
+  /** Palette colour picked by the hash of the slot id. */
+  private autoColor(slotId: string | number): string {
+    const colors = this.palette?.length ? this.palette : defaultPalette;
+    return colors[Math.abs(this.hashCode(String(slotId))) % colors.length];
   }
 
   /** Simple hash helper to deterministically pick a palette color. */
@@ -912,13 +3805,105 @@ export class CompactCalendarComponent
     return h;
   }
 
-  /** Open slot details unless the same slot is already selected. */
+  /**
+   * Open slot details unless the same slot is already selected. A slot
+   * outside the selection becomes the only selected one; a member keeps the
+   * selection so the group can be dragged.
+   */
   onSlotClick(slotFromCalendar: SlotViewModel): void {
+    if (!this.selection.has(slotFromCalendar.id)) {
+      this.setSelection([slotFromCalendar.id]);
+    }
+
     if (this.selectedSlot?.id === slotFromCalendar.id) {
       return;
     }
 
     this.selectedSlot = { ...slotFromCalendar, color: slotFromCalendar.color };
+    this.selectedSlotWidth = this.slotBarWidth(slotFromCalendar.id);
+  }
+
+  /** Rendered width (px) of a slot's bar, or 0 when it is not rendered. */
+  private slotBarWidth(slotId: string | number): number {
+    const id = CSS.escape(String(slotId));
+    const bar = this.hostEl.nativeElement.querySelector<HTMLElement>(
+      `.slot[data-id="${id}"]`
+    );
+    return bar ? Math.round(bar.offsetWidth) : 0;
+  }
+
+  /* ===========================
+     Detail editing
+     =========================== */
+
+  /**
+   * Placement check of a slot edited in the detail form: the same rules as
+   * a drag, with the slot measured from its edited times.
+   */
+  validateSlotEdit = (slot: CompactCalendarSlot): PlacementIssue[] => {
+    const previous = this.data.find((s) => s.id === slot.id) ?? null;
+    const { start, end } = slotInterval(slot, this.axis.origin);
+    return this.validatePlacement('edit', slot, previous, start, end);
+  };
+
+  /**
+   * Commit a slot saved in the detail form. The edit is validated again
+   * against the current data, since other slots may have changed while the
+   * form was open, and then goes through approval and the undo history like
+   * any other change.
+   */
+  onSlotEdit(result: SlotEditResult): void {
+    if (result.action === 'cancel') return;
+
+    const previous = this.data.find((s) => s.id === result.slot.id);
+    if (!previous) return;
+    if (this.savingSlotIds.has(previous.id)) {
+      this.announce(`${previous.tn} is still being saved.`);
+      return;
+    }
+
+    const issues = this.validateSlotEdit(result.slot);
+    if (issues.length) {
+      const title = 'Cannot save the slot';
+      this.flashInvalid(previous.id);
+      this.showPlacementWarning(issues, title);
+      this.announce(`${title}. ${issues.map((i) => i.message).join(' ')}`);
+      return;
+    }
+
+    this.clearPlacementWarning();
+    this.selectedSlot = null;
+    this.applyChange('edit', previous, result.slot, 'form');
+  }
+
+  /**
+   * Drop cached details of slots that were changed (by a drag, an edit, an
+   * undo or new input data) or removed since their details were loaded.
+   */
+  private pruneDetailsCache(): void {
+    if (!this.detailsCache.size) return;
+
+    const current = new Set(this.data);
+    for (const [id, entry] of this.detailsCache) {
+      if (!current.has(entry.slot)) this.detailsCache.delete(id);
+    }
+  }
+
+  /**
+   * Point the detail badge at a fresh view model of its slot, so the
+   * details, the colour, the saving state and the edit form never show a
+   * stale copy after a drag, an undo or new input data. The badge keeps its
+   * show cycle for the same slot id and closes when the slot is no longer
+   * rendered.
+   */
+  private refreshSelectedSlot(): void {
+    if (!this.selectedSlot) return;
+
+    const id = this.selectedSlot.id;
+    const current = Object.values(this.slotsByLocation)
+      .flat()
+      .find((s) => s.id === id);
+    this.selectedSlot = current ? { ...current } : null;
   }
 
   // ak potrebuješ slot zavrieť z parenta:
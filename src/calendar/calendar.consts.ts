@@ -1,5 +1,36 @@
+import { SlotStatus, SlotStatusRules } from './calendar.types';
+
 /**
- * Default set of slot colors used when an explicit color is not provided. The
- * hash-based selection keeps palette assignments stable across renders.
+ * Default set of slot colors used when neither an explicit color nor a color
+ * rule applies. The hash-based selection keeps palette assignments stable
+ * across renders.
  */
-export const palette = ['#8B5CF6', '#22D3EE', '#0EA5E9', '#FB923C', '#A855F7'];
\ No newline at end of file
+export const defaultPalette = [
+  '#8B5CF6',
+  '#22D3EE',
+  '#0EA5E9',
+  '#FB923C',
+  '#A855F7',
+];
+
+/** Slot statuses in lifecycle order, exceptions last, with display labels. */
+export const slotStatuses: { status: SlotStatus; label: string }[] = [
+  { status: 'booked', label: 'Booked' },
+  { status: 'arrived', label: 'Arrived' },
+  { status: 'docking', label: 'Docking' },
+  { status: 'loading', label: 'Loading' },
+  { status: 'done', label: 'Done' },
+  { status: 'no-show', label: 'No-show' },
+  { status: 'late', label: 'Late' },
+];
+
+/** Default status rules: finished slots can no longer be moved or resized. */
+export const defaultStatusRules: SlotStatusRules = {
+  done: { draggable: false, resizable: false },
+};
+
+/**
+ * Zoom levels in minutes per grid column, from the widest to the most
+ * detailed. `null` fits the whole visible range into the available width.
+ */
+export const zoomLevels: (number | null)[] = [null, 60, 30, 15, 5];
@@ -0,0 +1,93 @@
+/** Time (ms) a touch or pen contact has to rest before it starts a drag. */
+const LONG_PRESS_DELAY = 450;
+
+/** Distance (px) a resting contact may drift before it counts as a scroll. */
+const LONG_PRESS_SLOP = 8;
+
+/**
+ * Whether a pointer starts drags with a long press. Touch and pen contacts
+ * scroll the page on a plain swipe, so only the mouse drags immediately.
+ */
+export function isLongPressPointer(ev: PointerEvent): boolean {
+  return ev.pointerType === 'touch' || ev.pointerType === 'pen';
+}
+
+/**
+ * Keep the browser from scrolling, zooming or opening the context menu while
+ * a touch drag is in progress. Returns the function that lifts the lock.
+ */
+export function lockTouchGestures(): () => void {
+  const prevent = (ev: Event) => {
+    if (ev.cancelable) ev.preventDefault();
+  };
+  // touchmove listeners must be registered as non-passive to cancel a scroll
+  window.addEventListener('touchmove', prevent, { passive: false });
+  window.addEventListener('contextmenu', prevent);
+
+  return () => {
+    window.removeEventListener('touchmove', prevent);
+    window.removeEventListener('contextmenu', prevent);
+  };
+}
+
+/**
+ * Waits for a touch or pen contact to rest in place before starting a drag,
+ * so a quick swipe over a slot or a row keeps scrolling the page.
+ *
+ * The press is abandoned when the contact drifts further than a few pixels,
+ * is lifted or cancelled (the browser took over to scroll), or when another
+ * finger lands (a pinch). Otherwise the callback passed to `start()` runs
+ * once the delay has elapsed.
+ */
+export class LongPress {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private pointerId = -1;
+  private startX = 0;
+  private startY = 0;
+
+  /** Wait for the contact of `ev` to rest and then call `onPress`. */
+  start(ev: PointerEvent, onPress: () => void): void {
+    this.cancel();
+
+    this.pointerId = ev.pointerId;
+    this.startX = ev.clientX;
+    this.startY = ev.clientY;
+
+    window.addEventListener('pointermove', this.onMove);
+    window.addEventListener('pointerup', this.cancel);
+    window.addEventListener('pointercancel', this.cancel);
+    window.addEventListener('pointerdown', this.onOtherDown);
+
+    this.timer = setTimeout(() => {
+      this.cancel();
+      onPress();
+    }, LONG_PRESS_DELAY);
+  }
+
+  /** Abandon a pending press. */
+  cancel = () => {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    window.removeEventListener('pointermove', this.onMove);
+    window.removeEventListener('pointerup', this.cancel);
+    window.removeEventListener('pointercancel', this.cancel);
+    window.removeEventListener('pointerdown', this.onOtherDown);
+  };
+
+  /** Abandon the press once the contact drifts beyond the slop distance. */
+  private onMove = (ev: PointerEvent) => {
+    if (ev.pointerId !== this.pointerId) return;
+    const distance = Math.hypot(
+      ev.clientX - this.startX,
+      ev.clientY - this.startY
+    );
+    if (distance > LONG_PRESS_SLOP) this.cancel();
+  };
+
+  /** A second contact turns the gesture into a pinch. */
+  private onOtherDown = (ev: PointerEvent) => {
+    if (ev.pointerId !== this.pointerId) this.cancel();
+  };
+}
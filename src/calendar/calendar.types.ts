@@ -1,3 +1,4 @@
+import { Observable } from 'rxjs';
 
 /**
  * Raw slot information provided to the calendar. All times are expressed as
@@ -11,30 +12,388 @@ export type CompactCalendarSlot = {
   dateTimeFrom: string; /** ISO "YYYY-MM-DDTHH:mm:ss" */
   dateTimeTo: string; /** ISO "YYYY-MM-DDTHH:mm:ss" */
   color?: string; /** Optional explicit color for the bar. */
+  status?: SlotStatus; /** Lifecycle state, `booked` when missing. */
 };
 
-/** Start/end pair that defines the allowed working range for a given location. */
+/**
+ * Lifecycle state of a slot in the yard: booked → arrived → docking →
+ * loading → done, with `no-show` and `late` as exceptions.
+ */
+export type SlotStatus =
+  | 'booked'
+  | 'arrived'
+  | 'docking'
+  | 'loading'
+  | 'done'
+  | 'no-show'
+  | 'late';
+
+/** What users may still change on slots in a status; both default to `true`. */
+export type SlotStatusRule = {
+  draggable?: boolean; /** The slot may be moved to another time or row. */
+  resizable?: boolean; /** The slot's start and end may be changed. */
+};
+
+/** Status rules keyed by status; statuses that are not listed are free. */
+export type SlotStatusRules = Partial<Record<SlotStatus, SlotStatusRule>>;
+
+/**
+ * Row definition for a location. Configured resources are rendered even when
+ * they have no slots, ordered by `order` (unordered ones last, in input
+ * order); locations that only appear in the data are appended after them.
+ */
+export type CalendarResource = {
+  id: string; /** Location key, matches `CompactCalendarSlot.location`. */
+  name?: string; /** Display name, defaults to the id. */
+  order?: number;
+  description?: string; /** Secondary line under the name. */
+  icon?: string; /** Short glyph or emoji shown before the name. */
+  color?: string; /** Accent colour of the row label. */
+  disabled?: boolean; /** No slots may be created on or moved to the row. */
+  group?: string; /** Id of the row group the location belongs to. */
+};
+
+/**
+ * Collapsible group of rows such as a site or a dock. Groups nest through
+ * `parent`; groups without any location are not rendered.
+ */
+export type CalendarResourceGroup = {
+  id: string;
+  name?: string; /** Display name, defaults to the id. */
+  parent?: string; /** Id of the enclosing group. */
+  order?: number;
+  collapsed?: boolean; /** Initial collapsed state. */
+};
+
+/**
+ * Row rendered in the calendar body: a group header or a location. A
+ * collapsed group carries the merged occupancy of its hidden locations as
+ * track percentages.
+ */
+export type CalendarRow =
+  | {
+      type: 'group';
+      id: string;
+      name: string;
+      depth: number;
+      collapsed: boolean;
+      count: number; /** Number of locations inside the group. */
+      occupancy: { left: number; width: number }[];
+    }
+  | { type: 'location'; location: string; depth: number };
+
+/**
+ * Start/end pair that defines an allowed working range for a given location.
+ *
+ * A location may list several entries (e.g. two shifts around a lunch break).
+ * For every displayed date the most specific entries win: entries whose `day`
+ * matches the date replace everything else (holiday overrides), otherwise
+ * entries whose `weekday` contains the date's weekday replace the generic
+ * entries that carry neither field. An entry with `start === end` marks the
+ * date as closed, an `end` before `start` (e.g. 22:00–06:00) continues past
+ * midnight, and "24:00" denotes the end of the day.
+ */
 export type WorkingHoursEntry = {
   start: string; /** "HH:mm" */
   end: string; /** "HH:mm" */
-  weekday?: number[];
-  day?: string;
+  weekday?: number[]; /** ISO weekdays, 1 = Monday … 7 = Sunday (0 is also Sunday). */
+  day?: string; /** "YYYY-MM-DD" */
+};
+
+/**
+ * Declarative colour rule. Every condition that is set must match; a list
+ * matches any of its values. Rules are tried in order and the first match
+ * wins.
+ */
+export type SlotColorRule = {
+  carrier?: string | string[];
+  status?: SlotStatus | SlotStatus[];
+  tnPrefix?: string; /** Case-sensitive start of the slot's `tn`. */
+  color: string;
 };
 
+/** Colour rule as a function; return nothing to let later rules decide. */
+export type SlotColorFn = (
+  slot: CompactCalendarSlot
+) => string | null | undefined;
+
+/**
+ * Built-in theme of the calendar. Themes only set the CSS variables of the
+ * theme contract documented in `calendar.component.scss`, so a host can
+ * adjust any theme by overriding single variables.
+ */
+export type CalendarTheme = 'light' | 'dark' | 'high-contrast';
+
 /** Lookup of working-hour definitions keyed by location. */
 export type WorkingHoursMap = Record<string, WorkingHoursEntry[]>;
 
+/**
+ * Number of slots a location can serve at the same time, keyed by location.
+ * Locations that are not listed have a capacity of one.
+ */
+export type CapacityMap = Record<string, number>;
+
+/** Changeover time (minutes) required before and after a slot. */
+export type SlotBuffer = { before?: number; after?: number };
+
+/**
+ * Changeover buffer configuration. For each side the most specific value
+ * wins: the slot's carrier, then its location, then the default.
+ */
+export type BufferConfig = {
+  default?: SlotBuffer;
+  byLocation?: Record<string, SlotBuffer>;
+  byCarrier?: Record<string, SlotBuffer>;
+};
+
+/**
+ * Ad-hoc closure of a location (maintenance, inspection, equipment outage).
+ * Uses the same ISO format as slots; `reason` is shown on hover and in the
+ * warning when a drop is rejected.
+ */
+export type BlockedPeriod = {
+  id?: string | number;
+  location: string;
+  dateTimeFrom: string; /** ISO "YYYY-MM-DDTHH:mm:ss" */
+  dateTimeTo: string; /** ISO "YYYY-MM-DDTHH:mm:ss" */
+  reason: string;
+};
+
+/**
+ * Reason a slot cannot be placed at the proposed location and time. `rule`
+ * marks violations reported by host-provided validators, `rejected` a
+ * change the host refused in `beforeSlotChange`, `disabled` a row that
+ * does not accept slots and `status` a slot whose status freezes it.
+ */
+export type PlacementIssueReason =
+  | 'conflict'
+  | 'nonwork'
+  | 'blocked'
+  | 'buffer'
+  | 'rule'
+  | 'rejected'
+  | 'disabled'
+  | 'status';
+
+/** Rejected placement together with a human-readable explanation. */
+export type PlacementIssue = {
+  reason: PlacementIssueReason;
+  message: string;
+  code?: string; /** Identifier supplied by the validator that reported it. */
+};
+
+/**
+ * Proposed slot state handed to validators. `slot` already carries the new
+ * location and ISO times; `previous` is the committed state, or `null` when
+ * the slot is being created.
+ */
+export type SlotProposal = {
+  action: DragType | 'create' | 'edit';
+  slot: CompactCalendarSlot;
+  previous: CompactCalendarSlot | null;
+  data: readonly CompactCalendarSlot[];
+};
+
+/** Structured rule violation returned by a validator. */
+export type SlotViolation = { code?: string; message: string };
+
+/**
+ * Synchronous validation rule. Return `null`/`undefined` to accept the
+ * proposal, or one or more violations to reject it.
+ */
+export type SlotValidator = (
+  proposal: SlotProposal
+) => SlotViolation | SlotViolation[] | null | undefined;
+
+/**
+ * Interaction that caused a change: the mouse, touch or pen, the keyboard,
+ * the edit form of the detail badge, or a public method called by the host
+ * (including `undo()` and `redo()`).
+ */
+export type SlotChangeSource = 'pointer' | 'keyboard' | 'form' | 'api';
+
+/**
+ * New and replaced state of one slot. `slot` is `null` when the slot was
+ * deleted; `previous` is `null` when the slot was created.
+ */
+export type SlotChangeItem = {
+  slot: CompactCalendarSlot | null;
+  previous: CompactCalendarSlot | null;
+};
+
+/**
+ * Committed change awaiting host approval. `slot` is the new state, or
+ * `null` when the slot was deleted; `previous` is the state it replaces, or
+ * `null` when the slot was created. `changes` lists every slot of the
+ * change: a group drag, bulk shift or multi-slot paste is sent as one
+ * request (with the first of them in `slot` and `previous`) and is approved
+ * or refused as a whole.
+ */
+export type SlotChangeRequest = SlotChangeItem & {
+  action: DragType | 'create' | 'edit' | 'delete';
+  source: SlotChangeSource;
+  changes: SlotChangeItem[];
+};
+
+/** Slot created by dragging on a track, from the keyboard, or by pasting. */
+export type SlotCreateEvent = {
+  kind: 'create';
+  before: null;
+  after: CompactCalendarSlot;
+  dragType: null;
+  source: SlotChangeSource;
+};
+
+/**
+ * Existing slot moved, resized or edited. `dragType` tells which edge a drag
+ * changed (a keyboard step reports the drag it mirrors) and is `null` for
+ * an edit in the form.
+ */
+export type SlotUpdateEvent = {
+  kind: 'update';
+  before: CompactCalendarSlot;
+  after: CompactCalendarSlot;
+  dragType: DragType | null;
+  source: SlotChangeSource;
+};
+
+/** Slot removed from the calendar. */
+export type SlotDeleteEvent = {
+  kind: 'delete';
+  before: CompactCalendarSlot;
+  after: null;
+  dragType: null;
+  source: SlotChangeSource;
+};
+
+/** Any applied slot change, discriminated by `kind`. */
+export type SlotChangeEvent =
+  | SlotCreateEvent
+  | SlotUpdateEvent
+  | SlotDeleteEvent;
+
+/**
+ * Asynchronous host approval of a committed change. Resolve (or emit) `false`
+ * to refuse it; a rejected promise or a failing observable refuses it with
+ * the error's message as the reason. Any other result approves the change.
+ */
+export type BeforeSlotChange = (
+  change: SlotChangeRequest
+) => Promise<unknown> | Observable<unknown>;
+
+/**
+ * Outcome of the edit form in the slot detail badge: the edited slot to
+ * save together with the state it was edited from, or a cancellation.
+ */
+export type SlotEditResult =
+  | {
+      action: 'save';
+      slot: CompactCalendarSlot;
+      previous: CompactCalendarSlot;
+    }
+  | { action: 'cancel'; slot: CompactCalendarSlot };
+
+/**
+ * Loads additional details of a slot (pallets, driver, reference numbers…)
+ * when it is opened in the detail badge. A rejected promise or a failing
+ * observable shows the error's message with a retry button; an observable
+ * only contributes its first value.
+ */
+export type SlotDetailsLoader<T = unknown> = (
+  slot: CompactCalendarSlot
+) => Promise<T> | Observable<T>;
+
+/**
+ * Details loaded for a slot, together with the slot state they were loaded
+ * for. The entry is stale once the slot changes.
+ */
+export type SlotDetailsCacheEntry = {
+  slot: CompactCalendarSlot;
+  details: unknown;
+};
+
+/**
+ * Context of the projected details template: the loaded details as the
+ * implicit value and the slot they belong to.
+ */
+export type SlotDetailsContext<T = unknown> = {
+  $implicit: T;
+  slot: CompactCalendarSlot;
+};
+
+/**
+ * Context of host templates that render a slot: the body of its bar and the
+ * read-only part of the detail panel. `width` lets a template fall back to a
+ * compact version for narrow slots.
+ */
+export type SlotTemplateContext = {
+  $implicit: SlotViewModel;
+  duration: number; /** Minutes between the start and the end of the slot. */
+  width: number; /** Rendered width of the bar in pixels (0 until measured). */
+};
+
+/** Context of a host template that renders the label of a location row. */
+export type RowLabelTemplateContext = {
+  $implicit: string; /** Location key of the row. */
+  resource: CalendarResource | null;
+  name: string; /** Display name: the resource name or the location key. */
+  count: number; /** Number of slots rendered in the row. */
+};
+
+/** Half-open interval of axis minutes (`start` inclusive, `end` exclusive). */
+export type TimeInterval = { start: number; end: number };
+
 /** Normalized view model used by the calendar template. */
 export type SlotViewModel = {
   id: string | number;
   tn: string;
   carrier?: string;
+  fromMins: number; /** Start in minutes from midnight of the first visible day. */
+  toMins: number; /** End in minutes from midnight of the first visible day. */
   left: number; /** Percentage left offset within the track. */
   width: number; /** Percentage width within the track. */
   color: string;
+  darkBar?: boolean; /** The bar colour is dark, so the text is light. */
   invalid?: boolean;
+  violating?: boolean; /** Live validation failure while being dragged. */
+  saving?: boolean; /** Change is waiting for host approval. */
+  status: SlotStatus;
+  frozen?: boolean; /** The status rules forbid moving the slot. */
+  fixedSize?: boolean; /** The status rules forbid resizing the slot. */
+  lane?: number; /** Zero-based sub-lane within the row for overlapping slots. */
+  bufferBefore?: { left: number; width: number } | null; /** Changeover zone before the slot. */
+  bufferAfter?: { left: number; width: number } | null; /** Changeover zone after the slot. */
+  clippedStart?: boolean; /** The real start lies outside the visible range. */
+  clippedEnd?: boolean; /** The real end lies outside the visible range. */
   raw: CompactCalendarSlot;
 };
 
+/**
+ * Visible date range of the calendar: a single day, an ISO week starting on
+ * Monday, or an arbitrary number of consecutive days.
+ */
+export type CalendarViewRange = 'day' | 'week' | number;
+
+/**
+ * Time axis shared by the calendar and its slots. Minute values on the axis
+ * are measured from midnight of `origin`, so the axis spans
+ * `0 … days * 1440`. Only the `dayStart … dayEnd` window of each day is drawn
+ * on the track; the remaining hours take up no horizontal space.
+ */
+export type TimeAxis = {
+  origin: string; /** "YYYY-MM-DD" of the first visible day. */
+  days: number;
+  dayStart: number; /** First visible minute of each day. */
+  dayEnd: number; /** Last visible minute of each day (1440 = midnight). */
+};
+
+/** Header segment describing one visible day on the timeline. */
+export type DayColumn = {
+  key: string; /** "YYYY-MM-DD" */
+  label: string;
+  left: number; /** Percentage left offset within the timeline. */
+  width: number; /** Percentage width within the timeline. */
+};
+
 /** Drag intent for an interaction. */
 export type DragType = 'move' | 'resize-start' | 'resize-end';
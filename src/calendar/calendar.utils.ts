@@ -1,3 +1,17 @@
+import {
+  CompactCalendarSlot,
+  SlotColorRule,
+  TimeAxis,
+  TimeInterval,
+  WorkingHoursEntry,
+} from './calendar.types';
+
+/** Minutes contained in one calendar day. */
+export const MINUTES_IN_DAY = 24 * 60;
+
+/** Milliseconds contained in one calendar day. */
+const MS_IN_DAY = MINUTES_IN_DAY * 60 * 1000;
+
 /**
  * Convert a minute count (from midnight) into a zero-padded HH:mm string for
  * display.
@@ -9,3 +23,404 @@ export function formatMinutes(mins: number): string {
   const mm = m.toString().padStart(2, '0');
   return `${hh}:${mm}`;
 }
+
+/** Format a local `Date` as a "YYYY-MM-DD" day key. */
+export function toDayKey(date: Date): string {
+  const y = date.getFullYear().toString().padStart(4, '0');
+  const m = (date.getMonth() + 1).toString().padStart(2, '0');
+  const d = date.getDate().toString().padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+/**
+ * Parse the date portion of an ISO string ("YYYY-MM-DD…") into a UTC day
+ * number. UTC is used purely as a calendar counter so that daylight-saving
+ * shifts never change the distance between two wall-clock days.
+ */
+function dayNumber(iso: string): number {
+  const [y, m, d] = iso.slice(0, 10).split('-').map(Number);
+  const value = Date.UTC(y, (m || 1) - 1, d || 1);
+  return isFinite(value) ? Math.round(value / MS_IN_DAY) : 0;
+}
+
+/** Shift a "YYYY-MM-DD" day key by a number of days. */
+export function addDays(dayKey: string, days: number): string {
+  const date = new Date((dayNumber(dayKey) + days) * MS_IN_DAY);
+  const y = date.getUTCFullYear().toString().padStart(4, '0');
+  const m = (date.getUTCMonth() + 1).toString().padStart(2, '0');
+  const d = date.getUTCDate().toString().padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+/** Number of whole days between two day keys (`to - from`). */
+export function diffDays(fromKey: string, toKey: string): number {
+  return dayNumber(toKey) - dayNumber(fromKey);
+}
+
+/** ISO weekday (1 = Monday … 7 = Sunday) of a day key. */
+export function isoWeekday(dayKey: string): number {
+  // 1970-01-01 was a Thursday, so day number 0 maps to ISO weekday 4.
+  return ((((dayNumber(dayKey) + 3) % 7) + 7) % 7) + 1;
+}
+
+/** Monday of the ISO week that contains the given day key. */
+export function isoWeekStart(dayKey: string): string {
+  return addDays(dayKey, 1 - isoWeekday(dayKey));
+}
+
+/**
+ * Parse an ISO string (YYYY-MM-DDTHH:mm:ss) into minutes relative to midnight
+ * of `originDay`. Both the date and the time are honoured, so a slot on the
+ * following day yields values above 1440. Time zones are ignored on purpose:
+ * the calendar works with the wall-clock values supplied by the host.
+ */
+export function isoToAxisMinutes(iso: string, originDay: string): number {
+  if (!iso) return 0;
+  const [datePart, timePart = ''] = iso.split('T');
+  const [hhStr, mmStr] = timePart.split(':');
+  const hh = Number(hhStr || 0);
+  const mm = Number(mmStr || 0);
+  const mins = hh * 60 + mm;
+
+  return (
+    diffDays(originDay, datePart) * MINUTES_IN_DAY + (isFinite(mins) ? mins : 0)
+  );
+}
+
+/**
+ * Axis interval of a slot relative to `originDay`. An end that lies before
+ * the start is treated as the same time on the following day, so a slot sent
+ * as 22:00 → 02:00 with a single date still runs across midnight.
+ */
+export function slotInterval(
+  slot: Pick<CompactCalendarSlot, 'dateTimeFrom' | 'dateTimeTo'>,
+  originDay: string
+): TimeInterval {
+  const start = isoToAxisMinutes(slot.dateTimeFrom, originDay);
+  let end = isoToAxisMinutes(slot.dateTimeTo, originDay);
+  if (end < start) {
+    end += MINUTES_IN_DAY * Math.ceil((start - end) / MINUTES_IN_DAY);
+  }
+  return { start, end };
+}
+
+/**
+ * Inverse of `isoToAxisMinutes`: build an ISO date-time for a minute offset
+ * from midnight of `originDay`. Seconds are zero-padded so emitted values are
+ * deterministic.
+ */
+export function axisMinutesToIso(originDay: string, mins: number): string {
+  const rounded = Math.round(mins);
+  const dayOffset = Math.floor(rounded / MINUTES_IN_DAY);
+  const minuteOfDay = rounded - dayOffset * MINUTES_IN_DAY;
+  return `${addDays(originDay, dayOffset)}T${formatMinutes(minuteOfDay)}:00`;
+}
+
+/**
+ * Human-readable time range of an axis interval, e.g. "08:00 – 09:30". On
+ * multi-day axes both ends carry their date.
+ */
+export function formatAxisRange(
+  axis: TimeAxis,
+  fromMins: number,
+  toMins: number
+): string {
+  const format = (mins: number) => {
+    const iso = axisMinutesToIso(axis.origin, mins);
+    const time = iso.slice(11, 16);
+    return axis.days > 1 ? `${iso.slice(0, 10)} ${time}` : time;
+  };
+  return `${format(fromMins)} – ${format(toMins)}`;
+}
+
+/**
+ * Parse an "HH:mm" string into minutes from midnight. "24:00" is accepted as
+ * the end of the day (1440). Returns `null` for malformed or out-of-range
+ * values so callers can ignore broken configuration.
+ */
+export function parseTime(time: string | null | undefined): number | null {
+  if (!time) return null;
+  const [h, m = 0] = time.split(':').map(Number);
+  if (!Number.isInteger(h) || !Number.isInteger(m)) return null;
+  if (h < 0 || m < 0 || m > 59 || h > 24 || (h === 24 && m > 0)) return null;
+  return h * 60 + m;
+}
+
+/** Visible minutes per day of an axis (the length of its daily window). */
+export function axisWindowMinutes(axis: TimeAxis): number {
+  return axis.dayEnd - axis.dayStart;
+}
+
+/** Total visible minutes of an axis across all of its days. */
+export function axisVisibleMinutes(axis: TimeAxis): number {
+  return axis.days * axisWindowMinutes(axis);
+}
+
+/**
+ * Map an axis minute value onto the visible track, measured in visible
+ * minutes from the left edge. Times outside the daily window collapse onto
+ * the nearest window edge, so hidden night hours take up no space.
+ */
+export function axisToOffset(axis: TimeAxis, mins: number): number {
+  const windowLen = axisWindowMinutes(axis);
+  const day = Math.floor(mins / MINUTES_IN_DAY);
+  if (day < 0) return 0;
+  if (day >= axis.days) return axisVisibleMinutes(axis);
+
+  const minuteOfDay = mins - day * MINUTES_IN_DAY;
+  const inWindow = Math.max(
+    0,
+    Math.min(windowLen, minuteOfDay - axis.dayStart)
+  );
+  return day * windowLen + inWindow;
+}
+
+/** Inverse of `axisToOffset`: visible minutes from the left edge to axis minutes. */
+export function offsetToAxis(axis: TimeAxis, offset: number): number {
+  const windowLen = axisWindowMinutes(axis);
+  const clamped = Math.max(0, Math.min(axisVisibleMinutes(axis), offset));
+  const day = Math.min(axis.days - 1, Math.floor(clamped / windowLen));
+  return day * MINUTES_IN_DAY + axis.dayStart + (clamped - day * windowLen);
+}
+
+/**
+ * Whether an axis minute value falls inside a visible daily window. Midnight
+ * also counts as 24:00 of the previous day, so the end of a window that
+ * closes at 24:00 is on the axis.
+ */
+export function isOnAxis(axis: TimeAxis, mins: number): boolean {
+  const day = Math.floor(mins / MINUTES_IN_DAY);
+  const minuteOfDay = mins - day * MINUTES_IN_DAY;
+  const inDay = (d: number, m: number) =>
+    d >= 0 && d < axis.days && m >= axis.dayStart && m <= axis.dayEnd;
+
+  return (
+    inDay(day, minuteOfDay) ||
+    (minuteOfDay === 0 && inDay(day - 1, MINUTES_IN_DAY))
+  );
+}
+
+/**
+ * Sort intervals and merge the ones that overlap or touch, so consecutive
+ * shifts (e.g. 06:00–14:00 and 14:00–22:00) form a single working interval.
+ */
+export function mergeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+  const sorted = intervals
+    .filter((i) => i.end > i.start)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: TimeInterval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Pick the working-hour entries that apply to a single date: date-specific
+ * entries first, then weekday entries, then generic entries.
+ */
+export function entriesForDay(
+  entries: WorkingHoursEntry[],
+  dayKey: string
+): WorkingHoursEntry[] {
+  const byDay = entries.filter((e) => e.day === dayKey);
+  if (byDay.length) return byDay;
+
+  const weekday = isoWeekday(dayKey);
+  const byWeekday = entries.filter(
+    (e) =>
+      !e.day &&
+      e.weekday?.some((w) => w === weekday || (w === 0 && weekday === 7))
+  );
+  if (byWeekday.length) return byWeekday;
+
+  return entries.filter((e) => !e.day && !e.weekday?.length);
+}
+
+/**
+ * Resolve working-hour entries into merged working intervals (axis minutes
+ * relative to `originDay`) for the days `fromDay … toDay` (inclusive day
+ * offsets from the origin). An entry whose end lies before its start (e.g.
+ * 22:00–06:00) continues into the following day.
+ */
+export function workingIntervals(
+  entries: WorkingHoursEntry[],
+  originDay: string,
+  fromDay: number,
+  toDay: number
+): TimeInterval[] {
+  const intervals: TimeInterval[] = [];
+
+  for (let d = fromDay; d <= toDay; d++) {
+    const dayStart = d * MINUTES_IN_DAY;
+    for (const entry of entriesForDay(entries, addDays(originDay, d))) {
+      const start = parseTime(entry.start);
+      const end = parseTime(entry.end);
+      if (start === null || end === null) continue;
+      const overnight = end < start ? MINUTES_IN_DAY : 0;
+      intervals.push({ start: dayStart + start, end: dayStart + end + overnight });
+    }
+  }
+
+  return mergeIntervals(intervals);
+}
+
+/**
+ * Complement of `intervals` within `range`: the gaps that are not covered by
+ * any interval.
+ */
+export function intervalGaps(
+  intervals: TimeInterval[],
+  range: TimeInterval
+): TimeInterval[] {
+  const gaps: TimeInterval[] = [];
+  let cursor = range.start;
+
+  for (const interval of mergeIntervals(intervals)) {
+    if (interval.end <= cursor) continue;
+    if (interval.start >= range.end) break;
+    if (interval.start > cursor) {
+      gaps.push({ start: cursor, end: interval.start });
+    }
+    cursor = interval.end;
+  }
+
+  if (cursor < range.end) {
+    gaps.push({ start: cursor, end: range.end });
+  }
+  return gaps;
+}
+
+/**
+ * Highest number of intervals that overlap at any single point in time.
+ * Intervals are half-open, so one ending exactly when another starts does
+ * not count as concurrent.
+ */
+export function maxConcurrency(intervals: TimeInterval[]): number {
+  const events: [number, number][] = [];
+  for (const i of intervals) {
+    if (i.end <= i.start) continue;
+    events.push([i.start, 1], [i.end, -1]);
+  }
+  // ends sort before starts at the same instant
+  events.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+  let current = 0;
+  let max = 0;
+  for (const [, delta] of events) {
+    current += delta;
+    max = Math.max(max, current);
+  }
+  return max;
+}
+
+/**
+ * Whether two slot lists hold the same slots (by id) at the same locations
+ * and times, in any order. Other fields are ignored.
+ */
+export function samePlacements(
+  a: readonly CompactCalendarSlot[],
+  b: readonly CompactCalendarSlot[]
+): boolean {
+  if (a.length !== b.length) return false;
+
+  const key = (s: CompactCalendarSlot) =>
+    `${s.location}|${s.dateTimeFrom}|${s.dateTimeTo}`;
+  const byId = new Map(a.map((s) => [s.id, key(s)]));
+  return b.every((s) => byId.get(s.id) === key(s));
+}
+
+/** Whether a slot satisfies every condition of a declarative colour rule. */
+export function colorRuleMatches(
+  rule: SlotColorRule,
+  slot: CompactCalendarSlot
+): boolean {
+  const oneOf = <T>(value: T, expected: T | T[]) =>
+    Array.isArray(expected) ? expected.includes(value) : value === expected;
+
+  if (rule.carrier !== undefined && !oneOf(slot.carrier ?? '', rule.carrier)) {
+    return false;
+  }
+  if (
+    rule.status !== undefined &&
+    !oneOf(slot.status ?? 'booked', rule.status)
+  ) {
+    return false;
+  }
+  return !rule.tnPrefix || slot.tn.startsWith(rule.tnPrefix);
+}
+
+/** Canvas context used to resolve colour notations, created on first use. */
+let colorContext: CanvasRenderingContext2D | null | undefined;
+
+/**
+ * Any CSS colour notation (named, `hsl()`, `hwb()`…) in the "#rrggbb" or
+ * "rgba()" form the browser serializes it to, or `null` when it is not a
+ * colour or there is no DOM to resolve it.
+ */
+function resolveColor(color: string): string | null {
+  if (colorContext === undefined) {
+    colorContext =
+      typeof document === 'undefined'
+        ? null
+        : document.createElement('canvas').getContext('2d');
+  }
+  if (!colorContext) return null;
+
+  // an invalid colour leaves the previous fill style in place
+  const sentinel = '#010203';
+  colorContext.fillStyle = sentinel;
+  colorContext.fillStyle = color;
+  const resolved = String(colorContext.fillStyle);
+  return resolved === sentinel ? null : resolved;
+}
+
+/**
+ * Relative luminance (WCAG 2) of a CSS colour, or `null` when it cannot be
+ * resolved (e.g. a `var()` reference). "#rgb", "#rrggbb" and "rgb()" are
+ * parsed directly; other notations are resolved through a canvas.
+ */
+export function colorLuminance(color: string): number | null {
+  const value = color.trim();
+  let rgb: number[] | null = null;
+
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value);
+  if (hex) {
+    const digits =
+      hex[1].length === 3 ? hex[1].replace(/./g, (d) => d + d) : hex[1];
+    rgb = [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16));
+  } else {
+    const fn = /^rgba?\(([^)]+)\)$/i.exec(value);
+    const parts = fn?.[1].split(/[\s,/]+/).filter(Boolean).map(Number);
+    if (parts && parts.length >= 3 && parts.slice(0, 3).every(isFinite)) {
+      rgb = parts.slice(0, 3);
+    }
+  }
+  if (!rgb) {
+    const resolved = resolveColor(value);
+    return resolved && resolved !== value ? colorLuminance(resolved) : null;
+  }
+
+  const [r, g, b] = rgb.map((channel) => {
+    const c = Math.max(0, Math.min(255, channel)) / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * Whether white text contrasts better than black text with the colour.
+ * Unrecognised notations keep the default dark text.
+ */
+export function prefersLightText(color: string): boolean {
+  const luminance = colorLuminance(color);
+  if (luminance === null) return false;
+  // contrast ratios against white and black are equal at this luminance
+  return luminance < Math.sqrt(1.05 * 0.05) - 0.05;
+}
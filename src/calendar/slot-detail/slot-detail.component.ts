@@ -1,12 +1,35 @@
 import {
   Component,
+  EventEmitter,
   Input,
   OnChanges,
+  Output,
   SimpleChanges,
   OnDestroy,
+  TemplateRef,
 } from '@angular/core';
-import { CompactCalendarSlot, SlotViewModel } from '../calendar.types';
+import {
+  CompactCalendarSlot,
+  PlacementIssue,
+  SlotDetailsCacheEntry,
+  SlotDetailsContext,
+  SlotDetailsLoader,
+  SlotEditResult,
+  SlotTemplateContext,
+  SlotViewModel,
+} from '../calendar.types';
 import { CommonModule } from '@angular/common';
+import { Subscription, defer, take } from 'rxjs';
+
+/** Form values of a slot being edited; times are "YYYY-MM-DDTHH:mm". */
+type SlotDraft = {
+  tn: string;
+  carrier: string;
+  location: string;
+  from: string;
+  to: string;
+  color: string;
+};
 
 @Component({
   selector: 'app-slot-detail',
@@ -16,9 +39,17 @@ import { CommonModule } from '@angular/common';
   imports: [CommonModule],
 })
 /**
- * Floating badge that displays details for the selected slot. It simulates a
- * brief loading state before revealing content and auto-hides after a period of
- * inactivity unless the user hovers over it.
+ * Floating badge that displays details for the selected slot. With a
+ * `loader` it fetches further details while showing a loading state (results
+ * are kept in the calendar's `cache`), otherwise it simulates a brief
+ * loading state before revealing content. It auto-hides after a period of
+ * inactivity unless the user hovers over it. The details can be edited in an
+ * inline form; the edited slot is checked with `validate` before it may be
+ * saved.
+ *
+ * Loaded details are rendered through the `detailsTemplate` input; without
+ * a template they are listed as label/value rows. A `panelTemplate`
+ * replaces the read-only tn/carrier/time/location rows.
  */
 export class SlotDetailComponent implements OnChanges, OnDestroy {
   @Input() slot: SlotViewModel | null = null;
@@ -26,43 +57,105 @@ export class SlotDetailComponent implements OnChanges, OnDestroy {
   @Input() defaultColor = '#3ab7b0';
   /** v ms – auto hide ak používateľ na badge nesiahne */
   @Input() autoHideMs = 10000;
-  /** čas "fake loadingu" – kvôli animácii */
+  /** čas "fake loadingu" – kvôli animácii (len bez `loader`) */
   @Input() loadingMs = 1500;
+  /** Fetches further details of the opened slot. */
+  @Input() loader: SlotDetailsLoader | null = null;
+  /**
+   * Loaded details per slot id. Owned by the calendar, which drops entries
+   * of changed slots; an entry loaded for another state of the slot is
+   * ignored.
+   */
+  @Input() cache = new Map<string | number, SlotDetailsCacheEntry>();
+  /** Template for the loaded details. */
+  @Input() detailsTemplate: TemplateRef<SlotDetailsContext> | null = null;
+  /** Template for the read-only rows of the panel. */
+  @Input() panelTemplate: TemplateRef<SlotTemplateContext> | null = null;
+  /** Pixel width of the slot's bar, passed to `panelTemplate`. */
+  @Input() slotWidth = 0;
+
+  /** Locations offered in the edit form. */
+  @Input() locations: { id: string; name: string }[] = [];
+  /** Placement check of the edited slot (working hours, conflicts, rules). */
+  @Input() validate:
+    | ((slot: CompactCalendarSlot) => PlacementIssue[])
+    | null = null;
+
+  /** Emitted when the user asks to delete the shown slot. */
+  @Output() remove = new EventEmitter<SlotViewModel>();
+  /** Emitted when the edit form is saved or cancelled. */
+  @Output() editResult = new EventEmitter<SlotEditResult>();
 
   loading = false;
   visible = false;
   unnoticed = true;
 
+  /** Values of the edit form, or `null` while the details are read-only. */
+  draft: SlotDraft | null = null;
+  /** Messages explaining why the draft cannot be saved. */
+  issues: string[] = [];
+
+  /** Progress of the `loader` request for the shown slot. */
+  detailsState: 'idle' | 'loading' | 'ready' | 'error' = 'idle';
+  /** Result of the `loader` for the shown slot. */
+  details: unknown = null;
+  /** Reason shown when the details could not be loaded. */
+  detailsError = '';
+
+  private detailsSub: Subscription | null = null;
+
   private hideTimeoutId: any;
   private loadingTimeoutId: any;
 
-  /** Start the show cycle when a new slot arrives. */
+  /**
+   * Start the show cycle when a new slot arrives. A fresh view model of the
+   * slot already shown only updates the badge, reloading its details when
+   * the slot changed and no form is open.
+   */
   ngOnChanges(changes: SimpleChanges): void {
-    if (changes['slot'] && this.slot) {
+    const previous: SlotViewModel | null = changes['slot']?.previousValue;
+    if (!changes['slot'] || !this.slot) return;
+
+    if (previous?.id !== this.slot.id) {
+      this.draft = null;
+      this.issues = [];
       this.startShowCycle();
+    } else if (
+      previous.raw !== this.slot.raw &&
+      this.visible &&
+      this.loader &&
+      !this.draft
+    ) {
+      this.loadDetails();
     }
   }
 
   /** Clear timers when the badge is destroyed. */
   ngOnDestroy(): void {
     this.clearTimers();
+    this.cancelDetails();
   }
 
   /**
-   * Reset state, show the badge, simulate a loading pause, and schedule
-   * auto-hide. Mirrors behavior from the original JS implementation.
+   * Reset state, show the badge, load the details (or simulate a loading
+   * pause without a `loader`), and schedule auto-hide. Mirrors behavior from
+   * the original JS implementation.
    */
   private startShowCycle(): void {
     this.clearTimers();
 
     this.visible = true;
-    this.loading = true;
     this.unnoticed = true;
 
-    // simulácia loadera (rovnako ako v pôvodnom JS)
-    this.loadingTimeoutId = setTimeout(() => {
-      this.loading = false;
-    }, this.loadingMs);
+    if (this.loader) {
+      this.loadDetails();
+    } else {
+      this.loading = true;
+      // simulácia loadera (rovnako ako v pôvodnom JS)
+      this.loadingTimeoutId = setTimeout(() => {
+        this.loading = false;
+      }, this.loadingMs);
+    }
 
     // auto-hide ak používateľ nič nespraví
     this.hideTimeoutId = setTimeout(() => {
@@ -82,7 +175,205 @@ export class SlotDetailComponent implements OnChanges, OnDestroy {
   close(): void {
     this.visible = false;
     this.slot = null;
+    this.draft = null;
+    this.issues = [];
     this.clearTimers();
+    this.cancelDetails();
+  }
+
+  /** Request deletion of the shown slot and hide the badge. */
+  onRemove(): void {
+    if (this.slot) {
+      this.remove.emit(this.slot);
+    }
+    this.close();
+  }
+
+  /* ===== Loaded details ===== */
+
+  /** Label/value rows of object details, shown when there is no template. */
+  get detailEntries(): { label: string; value: unknown }[] {
+    const details = this.details;
+    if (!details || typeof details !== 'object') return [];
+    return Object.entries(details).map(([label, value]) => ({
+      label,
+      value: Array.isArray(value) ? value.join(', ') : value,
+    }));
+  }
+
+  /** Load the details again after a failed request. */
+  retry(): void {
+    const slot = this.slot?.raw;
+    if (!slot) return;
+    this.cache.delete(slot.id);
+    this.loadDetails();
+  }
+
+  /**
+   * Fetch the details of the shown slot, or take them from the cache. A
+   * request still running for a previously shown slot is cancelled first;
+   * a promise cannot be aborted, but its late result is ignored.
+   */
+  private loadDetails(): void {
+    this.cancelDetails();
+
+    const slot = this.slot?.raw;
+    const loader = this.loader;
+    this.details = null;
+    this.detailsError = '';
+    if (!slot || !loader) {
+      this.detailsState = 'idle';
+      this.loading = false;
+      return;
+    }
+
+    const cached = this.cache.get(slot.id);
+    if (cached?.slot === slot) {
+      this.details = cached.details;
+      this.detailsState = 'ready';
+      this.loading = false;
+      return;
+    }
+
+    this.detailsState = 'loading';
+    this.loading = true;
+    this.detailsSub = defer(() => loader(slot))
+      .pipe(take(1))
+      .subscribe({
+        next: (details) => {
+          this.cache.set(slot.id, { slot, details });
+          this.details = details;
+          this.detailsState = 'ready';
+          this.loading = false;
+        },
+        error: (err) => {
+          this.detailsError = this.errorMessage(err);
+          this.detailsState = 'error';
+          this.loading = false;
+        },
+        complete: () => {
+          // an observable that completes without a value has no details
+          if (this.detailsState === 'loading') {
+            this.detailsState = 'ready';
+            this.loading = false;
+          }
+        },
+      });
+  }
+
+  /** Drop the pending details request, if any. */
+  private cancelDetails(): void {
+    this.detailsSub?.unsubscribe();
+    this.detailsSub = null;
+  }
+
+  /** Readable reason of a failed details request. */
+  private errorMessage(err: unknown): string {
+    if (err instanceof Error && err.message) return err.message;
+    if (typeof err === 'string' && err) return err;
+    return 'The details could not be loaded.';
+  }
+
+  /* ===== Editing ===== */
+
+  /** Open the edit form prefilled with the current slot values. */
+  startEdit(): void {
+    const raw = this.slot?.raw;
+    if (!raw) return;
+
+    // the badge must not hide itself while the user is typing
+    this.clearTimers();
+    this.loading = false;
+    this.unnoticed = false;
+
+    this.draft = {
+      tn: raw.tn,
+      carrier: raw.carrier ?? '',
+      location: raw.location,
+      from: raw.dateTimeFrom.slice(0, 16),
+      to: raw.dateTimeTo.slice(0, 16),
+      color: raw.color ?? '',
+    };
+    this.validateDraft();
+  }
+
+  /** Update one field of the draft from an input event. */
+  onField(field: keyof SlotDraft, event: Event): void {
+    if (!this.draft) return;
+    const value = (event.target as HTMLInputElement | HTMLSelectElement).value;
+    this.draft = { ...this.draft, [field]: value };
+    this.validateDraft();
+  }
+
+  /** Emit the edited slot when the draft is valid and close the badge. */
+  save(): void {
+    const raw = this.slot?.raw;
+    const slot = this.draftSlot();
+    if (!raw || !slot || this.issues.length) return;
+
+    this.editResult.emit({ action: 'save', slot, previous: raw });
+    this.close();
+  }
+
+  /** Discard the draft and return to the read-only details. */
+  cancel(): void {
+    const raw = this.slot?.raw;
+    this.draft = null;
+    this.issues = [];
+    if (raw) {
+      this.editResult.emit({ action: 'cancel', slot: raw });
+    }
+  }
+
+  /** Colour shown by the colour picker, which only accepts "#rrggbb". */
+  get draftColor(): string {
+    const color = this.draft?.color || this.backgroundColor;
+    return /^#[0-9a-f]{6}$/i.test(color) ? color : this.defaultColor;
+  }
+
+  /** Slot described by the draft, or `null` when no form is open. */
+  private draftSlot(): CompactCalendarSlot | null {
+    const raw = this.slot?.raw;
+    if (!raw || !this.draft) return null;
+
+    const { tn, carrier, location, from, to, color } = this.draft;
+    const slot: CompactCalendarSlot = {
+      ...raw,
+      tn: tn.trim(),
+      carrier: carrier.trim() || undefined,
+      location,
+      dateTimeFrom: `${from}:00`,
+      dateTimeTo: `${to}:00`,
+    };
+    if (color) slot.color = color;
+    return slot;
+  }
+
+  /**
+   * Check the draft: required fields and the time order locally, then the
+   * placement through `validate` once the values are complete.
+   */
+  private validateDraft(): void {
+    const draft = this.draft;
+    const slot = this.draftSlot();
+    if (!draft || !slot) {
+      this.issues = [];
+      return;
+    }
+
+    const issues: string[] = [];
+    if (!draft.tn.trim()) issues.push('Tn is required.');
+    if (!draft.location) issues.push('Location is required.');
+    if (!draft.from || !draft.to) {
+      issues.push('Both times are required.');
+    } else if (draft.to <= draft.from) {
+      issues.push('The slot must end after it starts.');
+    }
+
+    if (!issues.length && this.validate) {
+      issues.push(...this.validate(slot).map((issue) => issue.message));
+    }
+    this.issues = issues;
   }
 
   /** Cancel both loading and auto-hide timers. */
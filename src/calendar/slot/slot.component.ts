@@ -1,12 +1,25 @@
 import {
-import {
+  AfterViewInit,
   Component,
+  ElementRef,
   EventEmitter,
   Input,
+  NgZone,
+  OnChanges,
+  OnDestroy,
   Output,
+  SimpleChanges,
+  TemplateRef,
+  ViewChild,
   ViewEncapsulation,
 } from '@angular/core';
-import { SlotViewModel } from '../calendar.types';
+import { NgIf, NgTemplateOutlet } from '@angular/common';
+import {
+  SlotTemplateContext,
+  SlotViewModel,
+  TimeAxis,
+} from '../calendar.types';
+import { formatAxisRange } from '../calendar.utils';
 import { SlotInvalidDirective } from './slot-invalid.directive';
 import { SlotDragDirective, SlotDragEvent } from './slot.directive';
 
@@ -14,31 +27,91 @@ import { SlotDragDirective, SlotDragEvent } from './slot.directive';
   selector: 'app-compact-calendar-slot',
   standalone: true,
   encapsulation: ViewEncapsulation.Emulated,
-  imports: [SlotInvalidDirective, SlotDragDirective],
+  imports: [NgIf, NgTemplateOutlet, SlotInvalidDirective, SlotDragDirective],
   templateUrl: './slot.component.html',
   styleUrls: ['./slot.component.scss'],
 })
 /**
  * Presentational slot chip that exposes pointer and click events for the parent
  * calendar to handle dragging/resizing. It also accepts an `invalid` flag that
- * triggers the shared shake animation via `SlotInvalidDirective`.
+ * triggers the shared shake animation via `SlotInvalidDirective`, and draws
+ * the slot's changeover buffers as hatched zones beside the bar. On touch
+ * screens a tap selects the slot, which enlarges its resize handles; a
+ * Ctrl/Shift-click toggles it in a multi-selection. A host `template`
+ * replaces the default tn/carrier body; while one is set the bar's pixel
+ * width is measured for it.
  */
-export class CalendarSlotComponent {
+export class CalendarSlotComponent
+  implements OnChanges, AfterViewInit, OnDestroy
+{
   @Input() slot!: SlotViewModel;
   @Input() location!: string;
   @Input() invalid = false;
-  @Input() minutesInDay = 24 * 60;
+  @Input() axis!: TimeAxis;
   @Input() snapStep = 30;
+  /** Whether the slot is the grid's roving tab stop. */
+  @Input() focusable = false;
+  /** Whether the slot is part of the calendar's selection. */
+  @Input() selected = false;
+  /** Host template for the body of the bar. */
+  @Input() template: TemplateRef<SlotTemplateContext> | null = null;
 
   @Output() slotClick = new EventEmitter<SlotViewModel>();
+  /** Ctrl/Cmd- or Shift-click: add the slot to the selection or remove it. */
+  @Output() slotToggle = new EventEmitter<SlotViewModel>();
   @Output() slotDragStart = new EventEmitter<SlotDragEvent>();
   @Output() slotDragMove = new EventEmitter<SlotDragEvent>();
   @Output() slotDragEnd = new EventEmitter<SlotDragEvent>();
+  @Output() slotDragCancel = new EventEmitter<SlotDragEvent>();
+
+  @ViewChild('bar') barEl?: ElementRef<HTMLElement>;
+
+  /** Measured width (px) of the bar, passed to the host template. */
+  widthPx = 0;
+
+  private resizeObserver: ResizeObserver | null = null;
+
+  constructor(private zone: NgZone) {}
+
+  /** Start or stop measuring when a template is set or removed. */
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['template'] && this.barEl) {
+      this.syncWidthObserver();
+    }
+  }
+
+  /** Measure once the bar has been rendered. */
+  ngAfterViewInit(): void {
+    this.syncWidthObserver();
+  }
+
+  /** Stop measuring when the slot is removed. */
+  ngOnDestroy(): void {
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+  }
+
+  /** Accessible name: tn, carrier, time range and transient state. */
+  get ariaLabel(): string {
+    const parts = [
+      this.slot.tn,
+      this.slot.carrier,
+      formatAxisRange(this.axis, this.slot.fromMins, this.slot.toMins),
+    ];
+    if (this.slot.status !== 'booked') parts.push(this.slot.status);
+    if (this.slot.violating) parts.push('invalid position');
+    if (this.slot.saving) parts.push('saving');
+    return parts.filter(Boolean).join(', ');
+  }
 
   /** Propagate a plain click without starting a drag sequence. */
   onClick(event: MouseEvent): void {
     event.stopPropagation();
-    this.slotClick.emit(this.slot);
+    if (event.ctrlKey || event.metaKey || event.shiftKey) {
+      this.slotToggle.emit(this.slot);
+    } else {
+      this.slotClick.emit(this.slot);
+    }
   }
 
   /** Bubble drag lifecycle events from the directive to the parent calendar. */
@@ -54,4 +127,31 @@ export class CalendarSlotComponent {
   onDragEnd(event: SlotDragEvent): void {
     this.slotDragEnd.emit(event);
   }
+
+  onDragCancel(event: SlotDragEvent): void {
+    this.slotDragCancel.emit(event);
+  }
+
+  /**
+   * Observe the bar's width only while a template needs it, so the default
+   * rendering of hundreds of slots costs no observers. The observer reports
+   * outside Angular; the zone is entered only when the width really changed.
+   */
+  private syncWidthObserver(): void {
+    const bar = this.barEl?.nativeElement;
+    if (!this.template || !bar || typeof ResizeObserver === 'undefined') {
+      this.resizeObserver?.disconnect();
+      this.resizeObserver = null;
+      return;
+    }
+    if (this.resizeObserver) return;
+
+    this.resizeObserver = new ResizeObserver(() => {
+      const width = Math.round(bar.offsetWidth);
+      if (width !== this.widthPx) {
+        this.zone.run(() => (this.widthPx = width));
+      }
+    });
+    this.resizeObserver.observe(bar);
+  }
 }
@@ -8,7 +8,19 @@ import {
   OnDestroy,
   Output,
 } from '@angular/core';
-import { DragType, SlotViewModel } from '../calendar.types';
+import { DragType, SlotViewModel, TimeAxis } from '../calendar.types';
+import {
+  MINUTES_IN_DAY,
+  axisToOffset,
+  axisVisibleMinutes,
+  offsetToAxis,
+} from '../calendar.utils';
+import { AutoScroller } from '../calendar.auto-scroll';
+import {
+  LongPress,
+  isLongPressPointer,
+  lockTouchGestures,
+} from '../calendar.touch';
 
 /**
  * Event payload surfaced on drag move/end to the host component.
@@ -24,6 +36,7 @@ export type SlotDragEvent = {
   type: DragType;
   fromMins: number;
   toMins: number;
+  copy?: boolean; /** Alt-drag: a duplicate is placed, the slot stays. */
 };
 
 /**
@@ -39,11 +52,17 @@ interface InternalDragCtx {
   origLocation: string;
   currentLocation: string;
   trackRect: DOMRect;
+  scrollEl: HTMLElement | null;
+  startScrollLeft: number;
   startX: number;
+  lastX: number;
+  lastY: number;
   startFromMins: number;
   startToMins: number;
   currentFromMins: number;
   currentToMins: number;
+  copy: boolean;
+  unlockTouch: (() => void) | null;
 }
 
 @Directive({
@@ -57,11 +76,22 @@ interface InternalDragCtx {
  * Responsibilities:
  * - Detect whether the user initiated a move or resize (left/right handle).
  * - Track pointer movement against the timeline width and convert pixels to
- *   minutes-from-midnight, snapping to the provided step.
- * - Enforce a minimum span while resizing and clamp to the day's bounds.
+ *   axis minutes (from midnight of the first visible day), snapping to the
+ *   provided step and accounting for horizontal scrolling of the body. Only
+ *   the visible daily window counts towards the pixel math; moves and
+ *   resizes may cross day boundaries.
+ * - Enforce a minimum span while resizing and clamp to the visible range.
  * - Detect the calendar row under the pointer so cross-row moves are possible.
+ * - Auto-scroll the calendar body while the pointer is near one of its edges,
+ *   so off-screen times and rows can be reached.
+ * - Flag moves started with Alt held as copies, so the host duplicates the
+ *   slot instead of moving it.
+ * - Start touch and pen drags with a long press, so a swipe over the slot
+ *   still scrolls the page; only a selected slot exposes its resize handles
+ *   to touch and pen.
  * - Emit `dragStart`, `dragMove`, and `dragEnd` so the calendar component can
- *   handle validation and state updates.
+ *   handle validation and state updates, and `dragCancel` when the browser
+ *   aborts the pointer.
  *
  * The directive intentionally avoids business logic like conflict detection or
  * persistence; it only surfaces raw position data for the host to interpret.
@@ -73,12 +103,15 @@ export class SlotDragDirective implements OnDestroy {
   /** Current row / location name. */
   @Input() slotLocation!: string;
 
-  /** Minutes in a day – keep in sync with parent. */
-  @Input() minutesInDay = 24 * 60;
+  /** Time axis of the calendar – keep in sync with parent. */
+  @Input() axis!: TimeAxis;
 
   /** Snap step in minutes. */
   @Input() snapStep = 30;
 
+  /** Whether the slot is selected; touch and pen can only resize it then. */
+  @Input() selected = false;
+
   /** Emitted immediately after pointer-down captures the drag context. */
   @Output() dragStart = new EventEmitter<SlotDragEvent>();
 
@@ -88,13 +121,21 @@ export class SlotDragDirective implements OnDestroy {
   /** Emitted once on pointerup with final position. */
   @Output() dragEnd = new EventEmitter<SlotDragEvent>();
 
+  /** Emitted instead of `dragEnd` when the browser cancels the pointer. */
+  @Output() dragCancel = new EventEmitter<SlotDragEvent>();
+
   private dragCtx: InternalDragCtx | null = null;
+  private autoScroller: AutoScroller | null = null;
+  private longPress = new LongPress();
 
   constructor(private el: ElementRef<HTMLElement>) {}
 
   /** Remove global listeners when the directive is destroyed. */
   ngOnDestroy(): void {
+    this.longPress.cancel();
     this.detachWindowListeners();
+    this.autoScroller?.stop();
+    this.dragCtx?.unlockTouch?.();
   }
 
   /* ============ HOST POINTER DOWN ============ */
@@ -103,33 +144,70 @@ export class SlotDragDirective implements OnDestroy {
   /**
    * Capture the starting drag state when the user clicks a slot or one of its
    * resize handles. This handler attaches global listeners to continue tracking
-   * the pointer outside the host element.
+   * the pointer outside the host element. Touch and pen contacts only start
+   * the drag once they have rested for a long press.
    */
   onPointerDown(ev: PointerEvent): void {
     if (ev.button !== 0) return;
+    // modifier clicks toggle the selection instead of dragging
+    if (ev.ctrlKey || ev.metaKey || ev.shiftKey) return;
+    // a change waiting for host approval cannot be edited again
+    if (this.slot?.saving) return;
 
     const target = ev.target as HTMLElement | null;
     if (!target) return;
 
+    const longPress = isLongPressPointer(ev);
+    // a finger easily lands on a handle, so they only count once selected
+    const handles = (!longPress || this.selected) && !this.slot?.fixedSize;
     let type: DragType = 'move';
 
-    if (target.closest('.h-left')) {
+    if (handles && target.closest('.h-left')) {
       type = 'resize-start';
-    } else if (target.closest('.h-right')) {
+    } else if (handles && target.closest('.h-right')) {
       type = 'resize-end';
     } else if (!target.closest('.slot')) {
       // clicked something else – ignore
       return;
     }
 
+    // a frozen slot can still be duplicated with Alt, but not moved
+    const copy = !longPress && ev.altKey && type === 'move';
+    if (type === 'move' && this.slot?.frozen && !copy) return;
+
     ev.stopPropagation();
+
+    if (longPress) {
+      // leave the contact to the browser so a swipe keeps scrolling
+      const { pointerId, clientX, clientY } = ev;
+      this.longPress.start(ev, () =>
+        this.beginDrag(type, pointerId, clientX, clientY, true, false)
+      );
+      return;
+    }
+
     ev.preventDefault();
+    this.beginDrag(type, ev.pointerId, ev.clientX, ev.clientY, false, copy);
+  }
 
+  /**
+   * Capture the pointer and the measurements of the drag, emit `dragStart`
+   * and start following the pointer. A touch drag also locks the browser's
+   * own scrolling and zooming until it ends.
+   */
+  private beginDrag(
+    type: DragType,
+    pointerId: number,
+    clientX: number,
+    clientY: number,
+    touch: boolean,
+    copy: boolean
+  ): void {
     // Capture the pointer so subsequent moves are consistently delivered even
     // when the cursor leaves the slot during a drag. This also avoids the
     // browser initiating native text selection while resizing.
     try {
-      this.el.nativeElement.setPointerCapture(ev.pointerId);
+      this.el.nativeElement.setPointerCapture(pointerId);
     } catch {
       // Some environments may not support pointer capture; continue gracefully.
     }
@@ -138,12 +216,12 @@ export class SlotDragDirective implements OnDestroy {
     if (!trackEl) return;
 
     const trackRect = trackEl.getBoundingClientRect();
+    const scrollEl = trackEl.closest('.cal-body') as HTMLElement | null;
 
-    const fromM = this.toMinutesFromMidnight(this.slot.raw.dateTimeFrom);
-    const toM = this.toMinutesFromMidnight(this.slot.raw.dateTimeTo);
-
-    const startFrom = this.clamp(fromM, 0, this.minutesInDay);
-    const startTo = this.clamp(toM, 0, this.minutesInDay);
+    // Use the unclamped axis minutes so a slot that starts before (or ends
+    // after) the visible range keeps its hidden edge while being dragged.
+    const startFrom = this.slot.fromMins;
+    const startTo = this.slot.toMins;
 
     this.dragCtx = {
       type,
@@ -151,12 +229,25 @@ export class SlotDragDirective implements OnDestroy {
       origLocation: this.slotLocation,
       currentLocation: this.slotLocation,
       trackRect,
-      startX: ev.clientX,
+      scrollEl,
+      startScrollLeft: scrollEl?.scrollLeft ?? 0,
+      startX: clientX,
+      lastX: clientX,
+      lastY: clientY,
       startFromMins: startFrom,
       startToMins: startTo,
       currentFromMins: startFrom,
       currentToMins: startTo,
+      copy,
+      unlockTouch: touch ? lockTouchGestures() : null,
     };
+    this.el.nativeElement.classList.toggle('copying', copy);
+
+    if (touch) {
+      // the slot lifts under the finger once the long press is recognised
+      this.el.nativeElement.classList.add('lifted');
+      navigator.vibrate?.(10);
+    }
 
     this.dragStart.emit({
       slotId: this.slot.id,
@@ -164,59 +255,94 @@ export class SlotDragDirective implements OnDestroy {
       type,
       fromMins: startFrom,
       toMins: startTo,
+      copy,
     });
 
+    // the sticky row label covers the left part of the scrolled body
+    const labelEl = trackEl.previousElementSibling as HTMLElement | null;
+    this.autoScroller = scrollEl
+      ? new AutoScroller(
+          scrollEl,
+          () => this.applyPointer(),
+          labelEl?.offsetWidth ?? 0
+        )
+      : null;
+
     this.attachWindowListeners();
   }
 
   /* ============ WINDOW POINTER MOVE / UP ============ */
 
   /**
-   * Track pointer movement and emit live drag progress.
+   * Track pointer movement and emit live drag progress, auto-scrolling the
+   * body when the pointer approaches one of its edges.
+   */
+  private onWindowPointerMove = (ev: PointerEvent) => {
+    if (!this.dragCtx) return;
+
+    this.dragCtx.lastX = ev.clientX;
+    this.dragCtx.lastY = ev.clientY;
+    this.applyPointer();
+    this.autoScroller?.update(ev.clientX, ev.clientY);
+  };
+
+  /**
+   * Emit the drag state for the last known pointer position.
    *
    * The handler derives delta minutes from the track width, applies snapping
    * and clamping for move/resize variants, and surfaces the row currently under
-   * the pointer so the host can provide cross-row previews.
+   * the pointer so the host can provide cross-row previews. It also runs after
+   * every auto-scroll step, when the content moved under a resting pointer.
    */
-  private onWindowPointerMove = (ev: PointerEvent) => {
+  private applyPointer(): void {
     if (!this.dragCtx) return;
 
     const {
       trackRect,
+      scrollEl,
+      startScrollLeft,
       type,
       startX,
       startFromMins,
       startToMins,
       slotId,
       currentLocation,
+      lastX,
+      lastY,
+      copy,
     } = this.dragCtx;
 
-    const dx = ev.clientX - startX;
-    const deltaMinutes = (dx / trackRect.width) * this.minutesInDay;
+    // horizontal scrolling since the drag started moves the track as well
+    const dx =
+      lastX - startX + ((scrollEl?.scrollLeft ?? 0) - startScrollLeft);
+    const deltaOffset =
+      (dx / trackRect.width) * axisVisibleMinutes(this.axis);
 
     let newFrom = startFromMins;
     let newTo = startToMins;
-    const minSpan = 30;
+    const minSpan = this.snapStep;
+    const minFrom = Math.min(0, startFromMins);
+    const maxTo = Math.max(this.axis.days * MINUTES_IN_DAY, startToMins);
 
     if (type === 'move') {
       const span = startToMins - startFromMins;
-      let rawFrom = startFromMins + deltaMinutes;
-      rawFrom = this.clamp(rawFrom, 0, this.minutesInDay - span);
+      let rawFrom = this.shift(startFromMins, deltaOffset);
+      rawFrom = this.clamp(rawFrom, minFrom, maxTo - span);
       newFrom = this.snap(rawFrom);
       newTo = newFrom + span;
     } else if (type === 'resize-start') {
-      let rawFrom = startFromMins + deltaMinutes;
-      rawFrom = this.clamp(rawFrom, 0, startToMins - minSpan);
+      let rawFrom = this.shift(startFromMins, deltaOffset);
+      rawFrom = this.clamp(rawFrom, minFrom, startToMins - minSpan);
       newFrom = this.snap(rawFrom);
     } else if (type === 'resize-end') {
-      let rawTo = startToMins + deltaMinutes;
-      rawTo = this.clamp(rawTo, startFromMins + minSpan, this.minutesInDay);
+      let rawTo = this.shift(startToMins, deltaOffset);
+      rawTo = this.clamp(rawTo, startFromMins + minSpan, maxTo);
       newTo = this.snap(rawTo);
     }
 
     // which row are we over?
     const targetLoc =
-      this.getLocationAtPoint(ev.clientX, ev.clientY) ?? currentLocation;
+      this.getLocationAtPoint(lastX, lastY) ?? currentLocation;
 
     this.dragCtx.currentLocation = targetLoc;
     this.dragCtx.currentFromMins = newFrom;
@@ -228,8 +354,9 @@ export class SlotDragDirective implements OnDestroy {
       type,
       fromMins: newFrom,
       toMins: newTo,
+      copy,
     });
-  };
+  }
 
   /**
    * Emit the final drag state and tear down listeners.
@@ -241,8 +368,14 @@ export class SlotDragDirective implements OnDestroy {
   private onWindowPointerUp = (ev: PointerEvent) => {
     if (!this.dragCtx) return;
 
-    const { slotId, currentLocation, currentFromMins, currentToMins, type } =
-      this.dragCtx;
+    const {
+      slotId,
+      currentLocation,
+      currentFromMins,
+      currentToMins,
+      type,
+      copy,
+    } = this.dragCtx;
 
     const targetLoc =
       this.getLocationAtPoint(ev.clientX, ev.clientY) || currentLocation;
@@ -253,17 +386,49 @@ export class SlotDragDirective implements OnDestroy {
       type,
       fromMins: currentFromMins,
       toMins: currentToMins,
+      copy,
     });
 
+    this.endDrag(ev.pointerId);
+  };
+
+  /**
+   * The browser aborted the pointer (e.g. for a system gesture). Report the
+   * untouched start state so the host can restore the slot.
+   */
+  private onWindowPointerCancel = (ev: PointerEvent) => {
+    if (!this.dragCtx) return;
+
+    const { slotId, origLocation, startFromMins, startToMins, type, copy } =
+      this.dragCtx;
+
+    this.dragCancel.emit({
+      slotId,
+      location: origLocation,
+      type,
+      fromMins: startFromMins,
+      toMins: startToMins,
+      copy,
+    });
+
+    this.endDrag(ev.pointerId);
+  };
+
+  /** Reset the drag state and release listeners, locks and the capture. */
+  private endDrag(pointerId: number): void {
+    this.dragCtx?.unlockTouch?.();
     this.dragCtx = null;
     this.detachWindowListeners();
+    this.autoScroller?.stop();
+    this.autoScroller = null;
+    this.el.nativeElement.classList.remove('lifted', 'copying');
 
     try {
-      this.el.nativeElement.releasePointerCapture(ev.pointerId);
+      this.el.nativeElement.releasePointerCapture(pointerId);
     } catch {
       /* noop */
     }
-  };
+  }
 
   /* ============ HELPERS ============ */
 
@@ -271,12 +436,14 @@ export class SlotDragDirective implements OnDestroy {
   private attachWindowListeners(): void {
     window.addEventListener('pointermove', this.onWindowPointerMove);
     window.addEventListener('pointerup', this.onWindowPointerUp);
+    window.addEventListener('pointercancel', this.onWindowPointerCancel);
   }
 
   /** Remove global pointer subscriptions. */
   private detachWindowListeners(): void {
     window.removeEventListener('pointermove', this.onWindowPointerMove);
     window.removeEventListener('pointerup', this.onWindowPointerUp);
+    window.removeEventListener('pointercancel', this.onWindowPointerCancel);
   }
 
   /**
@@ -301,16 +468,14 @@ export class SlotDragDirective implements OnDestroy {
     return loc || null;
   }
 
-  /** Convert an ISO string to minutes-from-midnight (local). */
-  private toMinutesFromMidnight(iso: string): number {
-    if (!iso) return 0;
-    const [_, timePart] = iso.split('T');
-    if (!timePart) return 0;
-    const [hhStr, mmStr] = timePart.split(':');
-    const hh = Number(hhStr ?? 0);
-    const mm = Number(mmStr ?? 0);
-    const mins = hh * 60 + mm;
-    return isFinite(mins) ? mins : 0;
+  /**
+   * Move an axis minute value by a number of visible minutes, skipping the
+   * hidden hours between two daily windows. A zero delta keeps the value
+   * untouched even when it currently lies in hidden hours.
+   */
+  private shift(mins: number, deltaOffset: number): number {
+    if (deltaOffset === 0) return mins;
+    return offsetToAxis(this.axis, axisToOffset(this.axis, mins) + deltaOffset);
   }
 
   /** Restrict a value to a range. */
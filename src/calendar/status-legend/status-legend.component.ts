@@ -0,0 +1,50 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SlotStatus } from '../calendar.types';
+import { slotStatuses } from '../calendar.consts';
+
+@Component({
+  selector: 'app-status-legend',
+  templateUrl: './status-legend.component.html',
+  styleUrls: ['./status-legend.component.scss'],
+  standalone: true,
+  imports: [CommonModule],
+})
+/**
+ * Legend of the slot statuses that doubles as a status filter. Every entry
+ * shows the status style with its slot count; clicking it hides or shows
+ * the slots in that status. Bind `[(filter)]` to the calendar's
+ * `statusFilter`; `null` means that every status is shown.
+ */
+export class StatusLegendComponent {
+  /** Statuses listed in the legend, in display order. */
+  @Input() statuses = slotStatuses;
+  /** Number of slots per status, shown next to the label. */
+  @Input() counts: Partial<Record<SlotStatus, number>> = {};
+  /** Shown statuses, or `null` for all of them. */
+  @Input() filter: SlotStatus[] | null = null;
+
+  /** Emits the new filter when an entry is toggled (supports `[(filter)]`). */
+  @Output() filterChange = new EventEmitter<SlotStatus[] | null>();
+
+  /** Whether slots in the status are currently shown. */
+  isShown(status: SlotStatus): boolean {
+    return !this.filter || this.filter.includes(status);
+  }
+
+  /** Hide or show one status; showing every status clears the filter. */
+  toggle(status: SlotStatus): void {
+    const shown = this.statuses
+      .map((s) => s.status)
+      .filter((s) => (s === status ? !this.isShown(s) : this.isShown(s)));
+
+    this.filter = shown.length === this.statuses.length ? null : shown;
+    this.filterChange.emit(this.filter);
+  }
+
+  /** Show every status again. */
+  showAll(): void {
+    this.filter = null;
+    this.filterChange.emit(null);
+  }
+}